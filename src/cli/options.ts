@@ -0,0 +1,33 @@
+import { type Command } from "commander";
+import { type CommitOptions } from "../utils/index.js";
+
+export type CommitCliOptions = {
+  message?: string;
+  type?: string;
+  body?: string;
+  breaking?: boolean | string;
+  issue?: string[];
+};
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+export function addCommitOptions(program: Command): Command {
+  return program
+    .option("-m, --message <message>", "commit message (subject, or an already-prefixed 'type(scope): subject')")
+    .option("-t, --type <type>", "commit type prefix (e.g. feat, fix)")
+    .option("--body <text>", "commit body (longer description)")
+    .option("--breaking [description]", "mark as breaking change (adds 'type!:' and a BREAKING CHANGE footer)")
+    .option("--issue <ref>", "issue reference footer, e.g. 'Closes #123' or 'PROJ-42' (repeatable)", collect, []);
+}
+
+export function toCommitOptions(options: CommitCliOptions): CommitOptions {
+  return {
+    commitMessage: options.message,
+    commitType: options.type,
+    commitBody: options.body,
+    breaking: options.breaking,
+    issues: options.issue && options.issue.length > 0 ? options.issue : undefined,
+  };
+}
@@ -0,0 +1,34 @@
+#!/usr/bin/env node
+import { createRequire } from "node:module";
+import { Command } from "commander";
+import { toBranch } from "../core/toBranch.js";
+import { formatCliError } from "../utils/log.js";
+
+type PackageJson = { name?: string; version?: string; description?: string };
+
+const require = createRequire(import.meta.url);
+const pkg = require("../../package.json") as PackageJson;
+
+const program = new Command();
+program
+  .name("to-branch")
+  .description("Create a feature branch from the latest remote main branch and push it.")
+  .version(pkg.version ?? "0.0.0")
+  .option("-t, --type <type>", "branch type, one of the configured commit types (e.g. feat, fix)")
+  .option("--ticket <id>", "ticket ID to put in the branch name (e.g. PROJ-12)")
+  .option("-d, --description <text>", "short description, slugified into the branch name")
+  .option("--dry-run", "print the git operations that would run without changing anything")
+  .action(async (options: { type?: string; ticket?: string; description?: string; dryRun?: boolean }) => {
+    await toBranch({
+      type: options.type,
+      ticket: options.ticket,
+      description: options.description,
+      dryRun: Boolean(options.dryRun),
+    });
+  });
+
+program.parseAsync().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`${formatCliError(program.name(), message)}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+import { createRequire } from "node:module";
+import { Command } from "commander";
+import { toChangelog } from "../core/toChangelog.js";
+import { formatCliError } from "../utils/log.js";
+
+type PackageJson = { name?: string; version?: string; description?: string };
+
+const require = createRequire(import.meta.url);
+const pkg = require("../../package.json") as PackageJson;
+
+const program = new Command();
+program
+  .name("to-changelog")
+  .description("Generate a CHANGELOG section from conventional commits between two refs.")
+  .version(pkg.version ?? "0.0.0")
+  .option("--from <ref>", "start ref/tag, exclusive (default: previous tag)")
+  .option("--to <ref>", "end ref/tag (default: HEAD)")
+  .option("--release <name>", "section title (default: --to if it is a tag, else 'Unreleased')")
+  .option("-f, --format <format>", "output format: markdown|json (default: markdown)")
+  .option("-o, --output <path>", "output file (markdown default: CHANGELOG.md; json default: stdout)")
+  .option("--stdout", "print markdown to stdout instead of writing the file")
+  .action(
+    async (options: {
+      from?: string;
+      to?: string;
+      release?: string;
+      format?: string;
+      output?: string;
+      stdout?: boolean;
+    }) => {
+      if (options.format && options.format !== "markdown" && options.format !== "json") {
+        throw new Error(`unknown format: ${options.format} (allowed: markdown, json)`);
+      }
+      await toChangelog({
+        from: options.from,
+        to: options.to,
+        version: options.release,
+        format: options.format === "json" ? "json" : "markdown",
+        output: options.output,
+        stdout: Boolean(options.stdout),
+      });
+    },
+  );
+
+program.parseAsync().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`${formatCliError(program.name(), message)}\n`);
+  process.exitCode = 1;
+});
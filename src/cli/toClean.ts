@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+import { createRequire } from "node:module";
+import { Command } from "commander";
+import { toClean } from "../core/toClean.js";
+import { formatCliError } from "../utils/log.js";
+
+type PackageJson = { name?: string; version?: string; description?: string };
+
+const require = createRequire(import.meta.url);
+const pkg = require("../../package.json") as PackageJson;
+
+const program = new Command();
+program
+  .name("to-clean")
+  .description("Delete local and remote branches that are already merged into the main branch.")
+  .version(pkg.version ?? "0.0.0")
+  .option("--test", "also offer branches merged into the test branch(es) but not yet into main")
+  .option("--older-than <age>", "also offer unmerged branches with no commits for this long (e.g. 30d, 6w, 3m)")
+  .option("-y, --yes", "delete every listed merged branch without asking")
+  .option("--include-stale", "with --yes, also delete the unmerged branches listed by --older-than")
+  .option("--dry-run", "print the git operations that would run without changing anything")
+  .action(
+    async (options: { test?: boolean; olderThan?: string; yes?: boolean; includeStale?: boolean; dryRun?: boolean }) => {
+      await toClean({
+        test: Boolean(options.test),
+        olderThan: options.olderThan,
+        yes: Boolean(options.yes),
+        includeStale: Boolean(options.includeStale),
+        dryRun: Boolean(options.dryRun),
+      });
+    },
+  );
+
+program.parseAsync().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`${formatCliError(program.name(), message)}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+import { createRequire } from "node:module";
+import { Command } from "commander";
+import { toLint } from "../core/toLint.js";
+import { formatCliError } from "../utils/log.js";
+
+type PackageJson = { name?: string; version?: string; description?: string };
+
+const require = createRequire(import.meta.url);
+const pkg = require("../../package.json") as PackageJson;
+
+const program = new Command();
+program
+  .name("to-lint")
+  .description("Lint commit messages against '<type>(<scope>): <subject>' and install git hooks.")
+  .version(pkg.version ?? "0.0.0")
+  .argument("[message]", "commit message to lint")
+  .option("-f, --file <path>", "read the commit message from a file (e.g. .git/COMMIT_EDITMSG)")
+  .option("-r, --range <range>", "lint every commit in a range like 'origin/main..HEAD'")
+  .option("--install-hooks", "install commit-msg and pre-push hooks into .git/hooks")
+  .option("--force", "overwrite existing hooks not installed by to-lint")
+  .action(
+    async (
+      message: string | undefined,
+      options: { file?: string; range?: string; installHooks?: boolean; force?: boolean },
+    ) => {
+      await toLint({
+        message,
+        file: options.file,
+        range: options.range,
+        installHooks: Boolean(options.installHooks),
+        force: Boolean(options.force),
+      });
+    },
+  );
+
+program.parseAsync().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`${formatCliError(program.name(), message)}\n`);
+  process.exitCode = 1;
+});
@@ -3,6 +3,7 @@ import { createRequire } from "node:module";
 import { Command } from "commander";
 import { toMain } from "../core/toMain.js";
 import { formatCliError } from "../utils/log.js";
+import { addCommitOptions, toCommitOptions, type CommitCliOptions } from "./options.js";
 
 type PackageJson = { name?: string; version?: string; description?: string };
 
@@ -13,11 +14,17 @@ const program = new Command();
 program
   .name("to-main")
   .description("Push current branch and print an MR/PR link into target branch.")
-  .version(pkg.version ?? "0.0.0")
-  .option("-b, --branch <name>", "target branch name (default: main)")
-  .action(async (options: { branch?: string }) => {
+  .version(pkg.version ?? "0.0.0");
+addCommitOptions(program)
+  .option("-b, --branch <name>", "target branch name (default: branches.main in cicd.config.js, or main)")
+  .option("--skip-checks", "skip the pre-push checks configured in cicd.config.js")
+  .option("--dry-run", "print the git operations that would run without changing anything")
+  .action(async (options: CommitCliOptions & { branch?: string; skipChecks?: boolean; dryRun?: boolean }) => {
     await toMain({
+      ...toCommitOptions(options),
       branch: options.branch,
+      skipChecks: Boolean(options.skipChecks),
+      dryRun: Boolean(options.dryRun),
     });
   });
 
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+import { createRequire } from "node:module";
+import { Command } from "commander";
+import { toRelease } from "../core/toRelease.js";
+import { formatCliError } from "../utils/log.js";
+
+type PackageJson = { name?: string; version?: string; description?: string };
+
+const require = createRequire(import.meta.url);
+const pkg = require("../../package.json") as PackageJson;
+
+const program = new Command();
+program
+  .name("to-release")
+  .description("Bump package.json version from conventional commits, tag and push (main branch only).")
+  .version(pkg.version ?? "0.0.0")
+  .option("--preid <id>", "pre-release channel, e.g. 'rc' -> 1.3.0-rc.0")
+  .option("--dry-run", "print the release plan without changing anything")
+  .action(async (options: { preid?: string; dryRun?: boolean }) => {
+    await toRelease({
+      preid: options.preid,
+      dryRun: Boolean(options.dryRun),
+    });
+  });
+
+program.parseAsync().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`${formatCliError(program.name(), message)}\n`);
+  process.exitCode = 1;
+});
@@ -3,6 +3,7 @@ import { createRequire } from "node:module";
 import { Command } from "commander";
 import { toSelf } from "../core/toSelf.js";
 import { formatCliError } from "../utils/log.js";
+import { addCommitOptions, toCommitOptions, type CommitCliOptions } from "./options.js";
 
 type PackageJson = { name?: string; version?: string; description?: string };
 
@@ -13,9 +14,16 @@ const program = new Command();
 program
   .name("to-self")
   .description(pkg.description ?? "Commit (if needed) and push current branch.")
-  .version(pkg.version ?? "0.0.0")
-  .action(async () => {
-    await toSelf();
+  .version(pkg.version ?? "0.0.0");
+addCommitOptions(program)
+  .option("--skip-checks", "skip the pre-push checks configured in cicd.config.js")
+  .option("--dry-run", "print the git operations that would run without changing anything")
+  .action(async (options: CommitCliOptions & { skipChecks?: boolean; dryRun?: boolean }) => {
+    await toSelf({
+      ...toCommitOptions(options),
+      skipChecks: Boolean(options.skipChecks),
+      dryRun: Boolean(options.dryRun),
+    });
   });
 
 program.parseAsync().catch((error: unknown) => {
@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+import { createRequire } from "node:module";
+import { Command } from "commander";
+import { toStatus } from "../core/toStatus.js";
+import { formatCliError } from "../utils/log.js";
+
+type PackageJson = { name?: string; version?: string; description?: string };
+
+const require = createRequire(import.meta.url);
+const pkg = require("../../package.json") as PackageJson;
+
+const program = new Command();
+program
+  .name("to-status")
+  .description("Show how the current branch stands against its remote, the test branch(es) and the main branch.")
+  .version(pkg.version ?? "0.0.0")
+  .option("-a, --all", "show every local branch instead of only the current one")
+  .option("--json", "print the status as JSON")
+  .option("--no-fetch", "use the last fetched remote state instead of fetching first")
+  .action(async (options: { all?: boolean; json?: boolean; fetch?: boolean }) => {
+    await toStatus({ all: Boolean(options.all), json: Boolean(options.json), fetch: options.fetch !== false });
+  });
+
+program.parseAsync().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`${formatCliError(program.name(), message)}\n`);
+  process.exitCode = 1;
+});
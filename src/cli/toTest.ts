@@ -2,9 +2,22 @@
 import { createRequire } from "node:module";
 import { Command } from "commander";
 import { toTest } from "../core/toTest.js";
+import { isMergeStrategy, MERGE_STRATEGIES } from "../utils/config.js";
 import { formatCliError } from "../utils/log.js";
+import { addCommitOptions, toCommitOptions, type CommitCliOptions } from "./options.js";
 
 type PackageJson = { name?: string; version?: string; description?: string };
+type ToTestCliOptions = CommitCliOptions & {
+  branch?: string[];
+  strategy?: string;
+  skipChecks?: boolean;
+  dryRun?: boolean;
+  continue?: boolean;
+  abort?: boolean;
+  rebuild?: boolean;
+  revert?: string;
+  yes?: boolean;
+};
 
 const require = createRequire(import.meta.url);
 const pkg = require("../../package.json") as PackageJson;
@@ -13,11 +26,40 @@ const program = new Command();
 program
   .name("to-test")
   .description("Merge current branch into target test branch and push.")
-  .version(pkg.version ?? "0.0.0")
-  .option("-b, --branch <name>", "target test branch name (default: test)")
-  .action(async (options: { branch?: string }) => {
+  .version(pkg.version ?? "0.0.0");
+addCommitOptions(program)
+  .option(
+    "-b, --branch <names...>",
+    "target branch(es), space or comma separated (default: branches.test in cicd.config.js, or test)",
+  )
+  .option(
+    "-s, --strategy <name>",
+    `merge strategy: ${MERGE_STRATEGIES.join(", ")} (default: merge.strategy in cicd.config.js, or merge)`,
+  )
+  .option("--skip-checks", "skip the pre-push checks configured in cicd.config.js")
+  .option("--dry-run", "print the git operations that would run without changing anything")
+  .option("--continue", "finish an unfinished merge (after resolving conflicts) and push")
+  .option("--abort", "abort an unfinished merge and return to the source branch")
+  .option("--rebuild", "recreate the target branch from main and re-merge selected feature branches (force-push)")
+  .option("--revert <branch>", "revert the merges of <branch> out of the target branch and push")
+  .option("-y, --yes", "skip the confirmation of --rebuild / --revert")
+  .action(async (options: ToTestCliOptions) => {
+    if (options.continue && options.abort) throw new Error("--continue and --abort cannot be used together");
+    if (options.rebuild && options.revert) throw new Error("--rebuild and --revert cannot be used together");
+    if (options.strategy !== undefined && !isMergeStrategy(options.strategy)) {
+      throw new Error(`unknown merge strategy '${options.strategy}' (allowed: ${MERGE_STRATEGIES.join(", ")})`);
+    }
     await toTest({
+      ...toCommitOptions(options),
       branch: options.branch,
+      strategy: options.strategy,
+      skipChecks: Boolean(options.skipChecks),
+      dryRun: Boolean(options.dryRun),
+      continue: Boolean(options.continue),
+      abort: Boolean(options.abort),
+      rebuild: Boolean(options.rebuild),
+      revert: options.revert,
+      yes: Boolean(options.yes),
     });
   });
 
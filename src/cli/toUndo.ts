@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+import { createRequire } from "node:module";
+import { Command } from "commander";
+import { toUndo } from "../core/toUndo.js";
+import { formatCliError } from "../utils/log.js";
+
+type PackageJson = { name?: string; version?: string; description?: string };
+
+const require = createRequire(import.meta.url);
+const pkg = require("../../package.json") as PackageJson;
+
+const program = new Command();
+program
+  .name("to-undo")
+  .description("Show the last to-self/to-test/to-main operation and revert what it changed.")
+  .version(pkg.version ?? "0.0.0")
+  .option("-y, --yes", "undo without asking for confirmation")
+  .action(async (options: { yes?: boolean }) => {
+    await toUndo({ yes: Boolean(options.yes) });
+  });
+
+program.parseAsync().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`${formatCliError(program.name(), message)}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,137 @@
+import { cwd as getCwd } from "node:process";
+import inquirer from "inquirer";
+import { type SimpleGit } from "simple-git";
+import { buildBranchName, slugify } from "../utils/branchName.js";
+import {
+  loadCicdConfigBranches,
+  loadCicdConfigBranchNameRules,
+  loadCicdConfigCommitRules,
+  loadCicdConfigProtectedBranches,
+  loadCicdConfigTicketRules,
+  type TicketRules,
+} from "../utils/config.js";
+import { matchesBranchPattern } from "../utils/glob.js";
+import { getPreferredRemote, pushCurrentBranch, remoteBranchExists } from "../utils/index.js";
+import { logStep, logSuccess } from "../utils/log.js";
+import { withGitOperations } from "../utils/ops.js";
+import { isProtectedBranch } from "../utils/protect.js";
+import { extractTicketId, resolveBranchTicket } from "../utils/ticket.js";
+
+type ToBranchOptions = {
+  type?: string;
+  ticket?: string;
+  description?: string;
+  dryRun?: boolean;
+};
+
+export async function toBranch(options: ToBranchOptions = {}): Promise<void> {
+  const cwd = getCwd();
+  await withGitOperations(cwd, Boolean(options.dryRun), "to-branch", (git) => runToBranch(git, cwd, options));
+}
+
+function validateTicket(value: string, rules: TicketRules | null, required: boolean): string | true {
+  const trimmed = value.trim();
+  if (!trimmed) return required ? "This branch type requires a ticket ID" : true;
+  if (/[\s/]/.test(trimmed)) return "Ticket ID cannot contain spaces or '/'";
+  if (rules && extractTicketId(trimmed, rules.pattern) !== trimmed) return `Ticket ID should match ${rules.pattern}`;
+  return true;
+}
+
+async function promptBranchParts(
+  cwd: string,
+  options: ToBranchOptions,
+): Promise<{ type: string; ticket: string; description: string }> {
+  const { types } = await loadCicdConfigCommitRules(cwd);
+  const interactive = Boolean(process.stdin.isTTY);
+
+  let type = options.type?.trim() ?? "";
+  if (type && !types.some((t) => t.value === type)) {
+    throw new Error(`unknown branch type '${type}' (allowed: ${types.map((t) => t.value).join(", ")})`);
+  }
+  if (!type) {
+    if (!interactive) throw new Error("no branch type given; rerun with --type");
+    ({ type } = await inquirer.prompt<{ type: string }>([
+      {
+        type: "list",
+        name: "type",
+        message: "Select branch type:",
+        choices: types.map((t) => ({ name: t.name, value: t.value })),
+      },
+    ]));
+  }
+
+  // A ticket is mandatory only when the resulting branch would match ticket.requiredBranches with onMissing: error.
+  const ticketRules = await loadCicdConfigTicketRules(cwd);
+  const preview = buildBranchName(await loadCicdConfigBranchNameRules(cwd), { type, description: "x" });
+  const required =
+    ticketRules?.onMissing === "error" && ticketRules.requiredBranches.some((p) => matchesBranchPattern(preview, p));
+
+  let ticket = options.ticket?.trim() ?? "";
+  if (options.ticket !== undefined || !interactive) {
+    if (validateTicket(ticket, ticketRules, required) !== true) {
+      const reason = ticket ? `invalid ticket ID '${ticket}'` : "this branch type requires a ticket ID";
+      throw new Error(`${reason}; rerun with --ticket`);
+    }
+  } else {
+    ({ ticket } = await inquirer.prompt<{ ticket: string }>([
+      {
+        type: "input",
+        name: "ticket",
+        message: `Ticket ID (${required ? "required" : "optional"}):`,
+        validate: (value: string) => validateTicket(value, ticketRules, required),
+      },
+    ]));
+  }
+
+  let description = options.description?.trim() ?? "";
+  if (!description) {
+    if (!interactive) throw new Error("no description given; rerun with --description");
+    ({ description } = await inquirer.prompt<{ description: string }>([
+      {
+        type: "input",
+        name: "description",
+        message: "Short description:",
+        validate: (value: string) => (slugify(value) ? true : "Description needs at least one letter or digit"),
+      },
+    ]));
+  }
+  if (!slugify(description)) throw new Error("description needs at least one letter or digit");
+  return { type, ticket: ticket.trim(), description };
+}
+
+async function runToBranch(git: SimpleGit, cwd: string, options: ToBranchOptions): Promise<void> {
+  logStep(`Working directory: ${cwd}`);
+  logStep("Checking git repository");
+  const isRepo = await git.checkIsRepo();
+  if (!isRepo) throw new Error("not inside a git repository");
+
+  const parts = await promptBranchParts(cwd, options);
+  const branch = buildBranchName(await loadCicdConfigBranchNameRules(cwd), parts);
+  const normalized = (await git.raw(["check-ref-format", "--branch", branch]).catch(() => "")).trim();
+  if (normalized !== branch) throw new Error(`'${branch}' is not a valid branch name; check branchName.pattern`);
+  if (isProtectedBranch(branch, await loadCicdConfigProtectedBranches(cwd))) {
+    throw new Error(`'${branch}' is a protected branch (protectedBranches in cicd.config.js)`);
+  }
+  const ticketRules = await loadCicdConfigTicketRules(cwd);
+  if (ticketRules) resolveBranchTicket(ticketRules, branch);
+
+  logStep("Resolving remote/upstream");
+  const remote = await getPreferredRemote(git);
+  const mainBranch = (await loadCicdConfigBranches(cwd)).main;
+  if ((await git.branchLocal()).all.includes(branch)) throw new Error(`branch '${branch}' already exists locally`);
+  if (await remoteBranchExists(git, remote, branch)) throw new Error(`branch '${branch}' already exists on ${remote}`);
+
+  logStep(`Fetching ${remote}/${mainBranch}`);
+  if (!(await remoteBranchExists(git, remote, mainBranch))) {
+    throw new Error(`main branch '${mainBranch}' not found on ${remote}`);
+  }
+  await git.fetch(remote, mainBranch);
+
+  // --no-track: the new branch must not track main, so pushCurrentBranch sets its own upstream.
+  logStep(`Creating ${branch} from ${remote}/${mainBranch}`);
+  await git.checkout(["--no-track", "-b", branch, `${remote}/${mainBranch}`]);
+
+  logStep(`Pushing to ${remote}/${branch}`);
+  await pushCurrentBranch(git, remote, branch);
+  if (!options.dryRun) logSuccess(`Created ${branch} from ${remote}/${mainBranch} -> ${remote}/${branch}`);
+}
@@ -0,0 +1,135 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { cwd as getCwd } from "node:process";
+import { simpleGit, type SimpleGit } from "simple-git";
+import {
+  groupChangelogEntries,
+  parseChangelogEntry,
+  prependChangelogSection,
+  renderChangelogMarkdown,
+  type ChangelogEntry,
+  type ChangelogSection,
+} from "../utils/changelog.js";
+import { loadCicdConfigCommitRules, loadCicdConfigHosts } from "../utils/config.js";
+import { findPreviousTag, getPreferredRemote } from "../utils/index.js";
+import { logStep, logSuccess, logWarning, setWarningsToStderr } from "../utils/log.js";
+import { parseRemoteUrl, type ParsedRemote } from "../utils/mr.js";
+
+type ToChangelogOptions = {
+  from?: string;
+  to?: string;
+  version?: string;
+  format?: "markdown" | "json";
+  output?: string;
+  stdout?: boolean;
+};
+
+export async function collectChangelogEntries(
+  git: SimpleGit,
+  from: string | null,
+  to: string,
+): Promise<ChangelogEntry[]> {
+  const range = from ? `${from}..${to}` : to;
+  const output = await git.raw(["log", "--format=%H%x00%P%x00%B%x1e", range]);
+  const entries: ChangelogEntry[] = [];
+  const merges: { parents: string[]; mr: number }[] = [];
+  for (const record of output.split("\x1e").map((r) => r.trim()).filter(Boolean)) {
+    const [hash = "", parents = "", ...rest] = record.split("\x00");
+    const entry = parseChangelogEntry(hash, rest.join("\x00"));
+    const parentList = parents.split(" ").filter(Boolean);
+    if (parentList.length < 2) entries.push(entry);
+    else if (entry.mr !== null) merges.push({ parents: parentList, mr: entry.mr });
+  }
+
+  // Merge commits are not entries, but a GitLab one ("See merge request group/repo!45") names the MR
+  // of the commits it brought in. Oldest first, so an inner MR wins over the merge of a whole branch.
+  for (const merge of merges.reverse()) {
+    const [first, ...others] = merge.parents;
+    const merged = await git.raw(["rev-list", ...others, "--not", first!]);
+    const hashes = new Set(merged.split("\n").filter(Boolean));
+    for (const entry of entries) {
+      if (entry.mr === null && hashes.has(entry.hash)) entry.mr = merge.mr;
+    }
+  }
+  return entries;
+}
+
+export async function resolveParsedRemote(git: SimpleGit, cwd: string): Promise<ParsedRemote | null> {
+  try {
+    const remote = await getPreferredRemote(git);
+    const remoteUrl = (await git.raw(["remote", "get-url", remote])).trim();
+    return parseRemoteUrl(remoteUrl, await loadCicdConfigHosts(cwd));
+  } catch {
+    return null;
+  }
+}
+
+async function isTag(git: SimpleGit, ref: string): Promise<boolean> {
+  const tags = (await git.raw(["tag", "--list", ref])).trim();
+  return tags.split("\n").includes(ref);
+}
+
+export async function toChangelog(options: ToChangelogOptions = {}): Promise<ChangelogSection> {
+  const cwd = getCwd();
+  const git = simpleGit({ baseDir: cwd });
+  const format = options.format ?? "markdown";
+  // Output going to stdout must not be mixed with progress lines or warnings.
+  const quiet = format === "json" ? !options.output : Boolean(options.stdout);
+  const step = (message: string): void => {
+    if (!quiet) logStep(message);
+  };
+  if (quiet) setWarningsToStderr(true);
+
+  step("Checking git repository");
+  const isRepo = await git.checkIsRepo();
+  if (!isRepo) throw new Error("not inside a git repository");
+
+  const to = options.to?.trim() ? options.to.trim() : "HEAD";
+  const from = options.from?.trim() ? options.from.trim() : await findPreviousTag(git, to);
+  step(`Collecting commits: ${from ? `${from}..${to}` : `${to} (no previous tag; from first commit)`}`);
+
+  const entries = await collectChangelogEntries(git, from, to);
+  const rules = await loadCicdConfigCommitRules(cwd);
+  const version = options.version?.trim() ? options.version.trim() : (await isTag(git, to)) ? to : "Unreleased";
+
+  const section: ChangelogSection = {
+    version,
+    date: new Date().toISOString().slice(0, 10),
+    from,
+    to,
+    breaking: entries.filter((e) => e.breaking),
+    groups: groupChangelogEntries(entries, rules.types),
+  };
+
+  if (format === "json") {
+    const json = `${JSON.stringify(section, null, 2)}\n`;
+    if (!options.output) {
+      process.stdout.write(json);
+      return section;
+    }
+    const outputPath = resolve(cwd, options.output);
+    await writeFile(outputPath, json, "utf8");
+    logSuccess(`Wrote ${entries.length} commit(s) to ${outputPath}`);
+    return section;
+  }
+
+  const markdown = renderChangelogMarkdown(section, await resolveParsedRemote(git, cwd));
+  if (options.stdout) {
+    process.stdout.write(markdown);
+    return section;
+  }
+
+  const outputPath = resolve(cwd, options.output?.trim() ? options.output.trim() : "CHANGELOG.md");
+  const existing = await readFile(outputPath, "utf8").catch((error: unknown) => {
+    if (error instanceof Error && "code" in error) {
+      const code = (error as Error & { code?: string }).code;
+      if (code === "ENOENT") return "";
+    }
+    throw error;
+  });
+  if (entries.length === 0) logWarning("No commits found in range; writing an empty section.");
+
+  await writeFile(outputPath, prependChangelogSection(existing, markdown), "utf8");
+  logSuccess(`Prepended ${version} (${entries.length} commit(s)) to ${outputPath}`);
+  return section;
+}
@@ -0,0 +1,210 @@
+import { cwd as getCwd } from "node:process";
+import inquirer from "inquirer";
+import { type SimpleGit } from "simple-git";
+import {
+  loadCicdConfigBranches,
+  loadCicdConfigProtectedBranches,
+  loadCicdConfigTestBranches,
+} from "../utils/config.js";
+import { getPreferredRemote, listMergedBranchRefs, remoteBranchExists } from "../utils/index.js";
+import { formatCheckResult, formatTable, logHeading, logStep, logSuccess, logWarning } from "../utils/log.js";
+import { withGitOperations } from "../utils/ops.js";
+import { isProtectedBranch } from "../utils/protect.js";
+
+type ToCleanOptions = {
+  test?: boolean;
+  olderThan?: string;
+  yes?: boolean;
+  includeStale?: boolean;
+  dryRun?: boolean;
+};
+
+type BranchRef = {
+  ref: string;
+  sha: string;
+  date: string;
+  timestamp: number;
+  author: string;
+};
+
+type CleanCandidate = {
+  branch: string;
+  local: BranchRef | null;
+  remote: BranchRef | null;
+  // Where it is merged (main or a test branch), or "stale" for an old unmerged branch.
+  reason: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseAge(value: string): number {
+  const match = /^(\d+)\s*([dwmy]?)$/i.exec(value.trim());
+  if (!match) throw new Error(`invalid --older-than '${value}' (use e.g. 30d, 6w, 3m or 1y)`);
+  const days = { "": 1, d: 1, w: 7, m: 30, y: 365 }[match[2]!.toLowerCase() as "" | "d" | "w" | "m" | "y"];
+  return Number(match[1]) * days * DAY_MS;
+}
+
+async function listBranchRefs(git: SimpleGit, prefix: string): Promise<Map<string, BranchRef>> {
+  const output = await git.raw([
+    "for-each-ref",
+    "--format=%(refname)%09%(objectname)%09%(committerdate:short)%09%(committerdate:unix)%09%(authorname)",
+    prefix,
+  ]);
+  const refs = new Map<string, BranchRef>();
+  for (const line of output.split("\n").filter(Boolean)) {
+    const [ref = "", sha = "", date = "", unix = "", author = ""] = line.split("\t");
+    const branch = ref.slice(prefix.length);
+    if (branch === "HEAD") continue;
+    refs.set(branch, { ref, sha, date, timestamp: Number(unix) * 1000, author });
+  }
+  return refs;
+}
+
+async function findCandidates(
+  git: SimpleGit,
+  cwd: string,
+  remote: string,
+  options: ToCleanOptions,
+): Promise<CleanCandidate[]> {
+  const mainBranch = (await loadCicdConfigBranches(cwd)).main;
+  const testBranches = await loadCicdConfigTestBranches(cwd);
+  const protectedBranches = await loadCicdConfigProtectedBranches(cwd);
+  const currentBranch = (await git.branch()).current;
+  const excluded = new Set([mainBranch, ...testBranches, currentBranch]);
+
+  const base = (name: string) => `refs/remotes/${remote}/${name}`;
+  const prefixes = ["refs/heads", `refs/remotes/${remote}`];
+  if (!(await remoteBranchExists(git, remote, mainBranch))) {
+    throw new Error(`main branch '${mainBranch}' not found on ${remote}`);
+  }
+  const targets: { name: string; merged: Set<string> }[] = [
+    { name: mainBranch, merged: await listMergedBranchRefs(git, remote, base(mainBranch), prefixes) },
+  ];
+  if (options.test) {
+    for (const test of testBranches) {
+      if (await remoteBranchExists(git, remote, test)) {
+        targets.push({ name: test, merged: await listMergedBranchRefs(git, remote, base(test), prefixes) });
+      }
+    }
+  }
+  const cutoff = options.olderThan ? Date.now() - parseAge(options.olderThan) : null;
+
+  const locals = await listBranchRefs(git, "refs/heads/");
+  const remotes = await listBranchRefs(git, `refs/remotes/${remote}/`);
+  const names = Array.from(new Set([...locals.keys(), ...remotes.keys()])).sort();
+
+  const candidates: CleanCandidate[] = [];
+  for (const branch of names) {
+    if (excluded.has(branch) || isProtectedBranch(branch, protectedBranches)) continue;
+    const copies = [locals.get(branch), remotes.get(branch)].filter((r): r is BranchRef => Boolean(r));
+
+    const target = targets.find((t) => copies.every((c) => t.merged.has(c.ref)));
+    const newest = Math.max(...copies.map((c) => c.timestamp));
+    const reason = target ? target.name : cutoff !== null && newest < cutoff ? "stale" : null;
+    if (!reason) continue;
+    candidates.push({ branch, local: locals.get(branch) ?? null, remote: remotes.get(branch) ?? null, reason });
+  }
+  return candidates;
+}
+
+function describeCandidate(candidate: CleanCandidate): string[] {
+  const latest = [candidate.local, candidate.remote]
+    .filter((r): r is BranchRef => Boolean(r))
+    .sort((a, b) => b.timestamp - a.timestamp)[0]!;
+  const where = [candidate.local ? "local" : "", candidate.remote ? "remote" : ""].filter(Boolean).join("+");
+  const merged = candidate.reason === "stale" ? "(unmerged, stale)" : candidate.reason;
+  return [candidate.branch, where, merged, latest.date, latest.author];
+}
+
+export async function toClean(options: ToCleanOptions = {}): Promise<void> {
+  const cwd = getCwd();
+  if (options.olderThan) parseAge(options.olderThan);
+  await withGitOperations(cwd, Boolean(options.dryRun), "to-clean", (git) => runToClean(git, cwd, options));
+}
+
+async function runToClean(git: SimpleGit, cwd: string, options: ToCleanOptions): Promise<void> {
+  logStep(`Working directory: ${cwd}`);
+  logStep("Checking git repository");
+  const isRepo = await git.checkIsRepo();
+  if (!isRepo) throw new Error("not inside a git repository");
+
+  logStep("Resolving remote/upstream");
+  const remote = await getPreferredRemote(git);
+  logStep(`Fetching ${remote} (prune)`);
+  await git.fetch(["--prune", remote]);
+
+  const candidates = await findCandidates(git, cwd, remote, options);
+  if (candidates.length === 0) {
+    logSuccess("Nothing to clean up.");
+    return;
+  }
+
+  const header = ["branch", "where", "merged into", "last commit", "author"];
+  const [headerLine = "", ...rowLines] = formatTable(header, candidates.map(describeCandidate)).split("\n");
+  let selected: CleanCandidate[];
+  if (options.yes) {
+    // Stale branches were never merged; --yes only deletes them with --include-stale.
+    const chosen = candidates.map((c, i) => ({ candidate: c, line: rowLines[i]! }));
+    const picked = chosen.filter(({ candidate }) => options.includeStale || candidate.reason !== "stale");
+    const skipped = chosen.length - picked.length;
+    selected = picked.map(({ candidate }) => candidate);
+    if (selected.length > 0) {
+      logHeading(`\nBranches to delete (${selected.length}):`);
+      process.stdout.write(`${[headerLine, ...picked.map(({ line }) => line)].join("\n")}\n`);
+    }
+    if (skipped > 0) {
+      logWarning(`Skipping ${skipped} unmerged stale branch(es); add --include-stale to delete them too.`);
+    }
+  } else {
+    if (!process.stdin.isTTY) {
+      throw new Error("selecting branches needs a terminal; rerun with --yes to delete the merged ones");
+    }
+    process.stdout.write(`\n    ${headerLine}\n`);
+    // Stale branches were never merged, so they start unchecked.
+    const answers = await inquirer.prompt<{ branches: CleanCandidate[] }>([
+      {
+        type: "checkbox",
+        name: "branches",
+        message: "Branches to delete:",
+        choices: candidates.map((c, i) => ({ name: rowLines[i]!, value: c, checked: c.reason !== "stale" })),
+        pageSize: 20,
+      },
+    ]);
+    selected = answers.branches;
+  }
+  if (selected.length === 0) {
+    logWarning("Nothing selected; no branches were deleted.");
+    return;
+  }
+
+  const results: { branch: string; deleted: boolean; detail: string }[] = [];
+  for (const candidate of selected) {
+    const { branch } = candidate;
+    try {
+      if (candidate.local) {
+        logStep(`Deleting local branch ${branch}`);
+        await git.raw(["branch", "-D", branch]);
+      }
+      if (candidate.remote) {
+        logStep(`Deleting ${remote}/${branch}`);
+        await git.push(remote, branch, ["--delete"]);
+      }
+      results.push({ branch, deleted: true, detail: "" });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ branch, deleted: false, detail: message.trim().split("\n")[0] ?? "" });
+    }
+  }
+
+  if (options.dryRun) return;
+  logHeading("\nCleanup result:");
+  const rows = results.map((r) => [
+    r.branch,
+    formatCheckResult(r.deleted ? "passed" : "failed", r.deleted ? "deleted" : "failed"),
+    r.detail,
+  ]);
+  process.stdout.write(`${formatTable(["branch", "result", "detail"], rows)}\n`);
+  const failed = results.filter((r) => !r.deleted);
+  if (failed.length > 0) throw new Error(`could not delete ${failed.map((r) => r.branch).join(", ")}`);
+  logSuccess(`Deleted ${selected.length} branch(es).`);
+}
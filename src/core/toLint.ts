@@ -0,0 +1,148 @@
+import { chmod, mkdir, readFile, writeFile } from "node:fs/promises";
+import { isAbsolute, join, resolve } from "node:path";
+import { cwd as getCwd } from "node:process";
+import { simpleGit, type SimpleGit } from "simple-git";
+import { loadCommitLintRules } from "../utils/index.js";
+import { lintCommitMessage, stripCommitComments } from "../utils/lint.js";
+import { formatCliError, logStep, logSuccess, logWarning } from "../utils/log.js";
+
+type ToLintOptions = {
+  message?: string;
+  file?: string;
+  range?: string;
+  installHooks?: boolean;
+  force?: boolean;
+};
+
+type LintTarget = {
+  label: string;
+  message: string;
+  onCurrentBranch?: boolean;
+};
+
+const HOOK_MARKER = "# installed by to-lint";
+
+// Git hooks do not get node_modules/.bin on PATH, so a devDependency install is reached through npx.
+const LINT_COMMAND = "npx --no-install to-lint";
+
+const COMMIT_MSG_HOOK = `#!/bin/sh
+${HOOK_MARKER}
+exec ${LINT_COMMAND} --file "$1"
+`;
+
+const PRE_PUSH_HOOK = `#!/bin/sh
+${HOOK_MARKER}
+zero=$(git hash-object --stdin </dev/null | tr '0-9a-f' '0')
+while read local_ref local_sha remote_ref remote_sha; do
+  [ "$local_sha" = "$zero" ] && continue
+  if [ "$remote_sha" = "$zero" ]; then
+    ${LINT_COMMAND} --range "$local_sha" || exit 1
+  else
+    ${LINT_COMMAND} --range "$remote_sha..$local_sha" || exit 1
+  fi
+done
+exit 0
+`;
+
+async function detectCurrentBranch(git: SimpleGit): Promise<string | null> {
+  try {
+    const branch = (await git.revparse(["--abbrev-ref", "HEAD"])).trim();
+    return branch && branch !== "HEAD" ? branch : null;
+  } catch {
+    return null;
+  }
+}
+
+async function collectRangeTargets(git: SimpleGit, range: string): Promise<LintTarget[]> {
+  // A bare revision means "commits not on any remote yet" (e.g. a brand new branch in pre-push).
+  const revArgs = range.includes("..") ? [range] : [range, "--not", "--remotes"];
+  const output = await git.raw(["log", "--format=%h%x00%B%x1e", ...revArgs]);
+  return output
+    .split("\x1e")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [hash, ...rest] = entry.split("\x00");
+      return { label: hash!, message: rest.join("\x00").trim() };
+    });
+}
+
+async function installHook(hooksDir: string, name: string, content: string, force: boolean): Promise<void> {
+  const hookPath = join(hooksDir, name);
+  const existing = await readFile(hookPath, "utf8").catch((error: unknown) => {
+    if (error instanceof Error && "code" in error) {
+      const code = (error as Error & { code?: string }).code;
+      if (code === "ENOENT") return null;
+    }
+    throw error;
+  });
+
+  if (existing !== null && !existing.includes(HOOK_MARKER) && !force) {
+    logWarning(`Hook already exists and was not installed by to-lint; skipping: ${hookPath} (use --force)`);
+    return;
+  }
+
+  await writeFile(hookPath, content, "utf8");
+  await chmod(hookPath, 0o755);
+  logSuccess(`Installed ${name} hook: ${hookPath}`);
+}
+
+export async function installLintHooks(cwd: string, force = false): Promise<void> {
+  const git = simpleGit({ baseDir: cwd });
+  const isRepo = await git.checkIsRepo();
+  if (!isRepo) throw new Error("not inside a git repository");
+
+  const commonDir = (await git.raw(["rev-parse", "--git-common-dir"])).trim();
+  const hooksDir = join(isAbsolute(commonDir) ? commonDir : resolve(cwd, commonDir), "hooks");
+  logStep(`Installing git hooks into ${hooksDir}`);
+  const customHooksPath = (await git.raw(["config", "--get", "core.hooksPath"]).catch(() => "")).trim();
+  if (customHooksPath) {
+    logWarning(`core.hooksPath is set to '${customHooksPath}'; git will not run hooks from ${hooksDir}.`);
+  }
+  await mkdir(hooksDir, { recursive: true });
+  await installHook(hooksDir, "commit-msg", COMMIT_MSG_HOOK, force);
+  await installHook(hooksDir, "pre-push", PRE_PUSH_HOOK, force);
+}
+
+export async function toLint(options: ToLintOptions = {}): Promise<void> {
+  const cwd = getCwd();
+
+  if (options.installHooks) {
+    await installLintHooks(cwd, Boolean(options.force));
+    return;
+  }
+
+  const git = simpleGit({ baseDir: cwd });
+  const targets: LintTarget[] = [];
+  if (options.message !== undefined) {
+    targets.push({ label: "message", message: options.message.trim(), onCurrentBranch: true });
+  }
+  if (options.file) {
+    const raw = await readFile(resolve(cwd, options.file), "utf8");
+    targets.push({ label: options.file, message: stripCommitComments(raw), onCurrentBranch: true });
+  }
+  if (options.range) {
+    targets.push(...(await collectRangeTargets(git, options.range.trim())));
+  }
+  if (targets.length === 0) {
+    throw new Error("nothing to lint; pass a message, --file or --range");
+  }
+
+  // Branch-restricted types only apply to a commit being made now; a range may span several branches.
+  const branchRules = await loadCommitLintRules(cwd, await detectCurrentBranch(git));
+  const rangeRules = await loadCommitLintRules(cwd, null);
+  let failed = 0;
+  for (const target of targets) {
+    const errors = lintCommitMessage(target.message, target.onCurrentBranch ? branchRules : rangeRules);
+    if (errors.length === 0) continue;
+    failed++;
+    const header = target.message.split(/\r?\n/)[0] ?? "";
+    process.stderr.write(`${formatCliError(target.label, header)}\n`);
+    for (const error of errors) process.stderr.write(`  ${formatCliError("error", error)}\n`);
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} of ${targets.length} commit message(s) failed lint`);
+  }
+  logSuccess(`${targets.length} commit message(s) passed lint`);
+}
@@ -1,40 +1,65 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
 import { cwd as getCwd } from "node:process";
-import { simpleGit } from "simple-git";
+import { type SimpleGit } from "simple-git";
 import {
   commitIfDirty,
+  type CommitOptions,
   getPreferredRemote,
   pullIfPossible,
   pushCurrentBranch,
+  remoteBranchExists,
 } from "../utils/index.js";
+import { runChecks } from "../utils/checks.js";
+import {
+  loadCicdConfigBranches,
+  loadCicdConfigCommitRules,
+  loadCicdConfigHosts,
+  loadCicdConfigMrRules,
+  loadCicdConfigTicketRules,
+} from "../utils/config.js";
 import { logStep, logSuccess, logWarning } from "../utils/log.js";
-import { buildCreateMrUrl, parseRemoteUrl } from "../utils/mr.js";
+import { buildCreateMrUrl, parseRemoteUrl, redactRemoteUrl } from "../utils/mr.js";
+import { createOrReuseMr, resolveMrApiBaseUrl, resolveMrApiToken } from "../utils/mrApi.js";
+import { buildMrDescription, buildMrTitle, renderMrTemplate } from "../utils/mrContent.js";
+import { withGitOperations } from "../utils/ops.js";
+import { guardProtectedBranch } from "../utils/protect.js";
+import { warnIfToTestPending } from "../utils/state.js";
+import { extractTicketId } from "../utils/ticket.js";
+import { collectChangelogEntries } from "./toChangelog.js";
 
-type ToMainOptions = {
+type ToMainOptions = Omit<CommitOptions, "cwd"> & {
   branch?: string;
-  commitMessage?: string;
-  commitType?: string;
+  skipChecks?: boolean;
+  dryRun?: boolean;
 };
 
 export async function toMain(options: ToMainOptions = {}): Promise<void> {
   const cwd = getCwd();
-  const targetBranch = options.branch?.trim() ? options.branch.trim() : "main";
-  const git = simpleGit({ baseDir: cwd });
+  await withGitOperations(cwd, Boolean(options.dryRun), "to-main", (git) => runToMain(git, cwd, options));
+}
+
+async function runToMain(git: SimpleGit, cwd: string, options: ToMainOptions): Promise<void> {
+  const targetBranch = options.branch?.trim() ? options.branch.trim() : (await loadCicdConfigBranches(cwd)).main;
 
   logStep(`Working directory: ${cwd}`);
   logStep("Checking git repository");
   const isRepo = await git.checkIsRepo();
   if (!isRepo) throw new Error("not inside a git repository");
+  await warnIfToTestPending(git);
 
   logStep("Detecting current branch");
-  const currentBranch = (await git.branch()).current;
-  if (!currentBranch || currentBranch === "HEAD") {
+  const detectedBranch = (await git.branch()).current;
+  if (!detectedBranch || detectedBranch === "HEAD") {
     throw new Error("detached HEAD; checkout a branch first");
   }
-  if (currentBranch === targetBranch) {
+  if (detectedBranch === targetBranch) {
     throw new Error(`cannot run to-main on '${targetBranch}' branch; checkout another branch first`);
   }
+  const currentBranch = await guardProtectedBranch(git, cwd, detectedBranch, "to-main");
 
-  await commitIfDirty(git, { commitMessage: options.commitMessage, commitType: options.commitType });
+  const { skipChecks, dryRun, ...commitOptions } = options;
+  await commitIfDirty(git, { ...commitOptions, cwd });
 
   logStep("Resolving remote/upstream");
   const remote = await getPreferredRemote(git);
@@ -42,21 +67,73 @@ export async function toMain(options: ToMainOptions = {}): Promise<void> {
   logStep(`Pulling latest from ${remote}/${currentBranch}`);
   await pullIfPossible(git, remote, currentBranch, "to-main");
 
+  await runChecks(git, { cwd, command: "to-main", remote, branch: currentBranch, skip: skipChecks });
+
   logStep(`Pushing to ${remote}/${currentBranch}`);
   await pushCurrentBranch(git, remote, currentBranch);
-  logSuccess(`Pushed ${currentBranch} -> ${remote}/${currentBranch}`);
+  if (!dryRun) logSuccess(`Pushed ${currentBranch} -> ${remote}/${currentBranch}`);
 
-  logStep(`Generating MR/PR link: ${currentBranch} -> ${targetBranch}`);
   const remoteUrl = (await git.raw(["remote", "get-url", remote])).trim();
-  const parsed = parseRemoteUrl(remoteUrl);
+  const parsed = parseRemoteUrl(remoteUrl, await loadCicdConfigHosts(cwd));
   if (!parsed) {
-    logWarning(`Could not parse remote url: ${remoteUrl}`);
+    logWarning(`Could not parse remote url: ${redactRemoteUrl(remoteUrl)}`);
     return;
   }
 
-  const mrUrl = buildCreateMrUrl(parsed, currentBranch, targetBranch);
+  logStep(`Collecting commits: ${remote}/${targetBranch}..${currentBranch}`);
+  const hasTarget = await remoteBranchExists(git, remote, targetBranch);
+  if (hasTarget) await git.fetch(remote, targetBranch);
+  const entries = hasTarget ? await collectChangelogEntries(git, `${remote}/${targetBranch}`, "HEAD") : [];
+  const { types } = await loadCicdConfigCommitRules(cwd);
+  const ticketRules = await loadCicdConfigTicketRules(cwd);
+  const ticket = ticketRules ? extractTicketId(currentBranch, ticketRules.pattern) : null;
+  const title = buildMrTitle(entries, currentBranch, types, ticket);
+  const mrRules = await loadCicdConfigMrRules(cwd);
+  let description = buildMrDescription(entries, types);
+  if (mrRules.template) {
+    const template = await readFile(join(cwd, mrRules.template), "utf8").catch(() => null);
+    if (template === null) {
+      logWarning(`MR/PR template not found: ${mrRules.template}; using the commit list only.`);
+    } else {
+      const values = { title, commits: description, branch: currentBranch, target: targetBranch, ticket };
+      description = renderMrTemplate(template, values);
+    }
+  }
+  if (parsed.provider === "github" || parsed.provider === "gitlab") {
+    const token = resolveMrApiToken(parsed.provider, mrRules.token);
+    const baseUrl = resolveMrApiBaseUrl(parsed, mrRules.apiUrl);
+    if (token && baseUrl && dryRun) {
+      logWarning(`dry-run: would create (or reuse) the MR/PR via ${baseUrl}: ${title}`);
+    } else if (token && baseUrl) {
+      logStep(`Creating MR/PR via API: ${currentBranch} -> ${targetBranch}`);
+      try {
+        const { provider, ownerPath, repo } = parsed;
+        const mr = await createOrReuseMr(
+          { provider, baseUrl, token, ownerPath, repo },
+          {
+            source: currentBranch,
+            target: targetBranch,
+            title,
+            description,
+            reviewers: mrRules.reviewers,
+            labels: mrRules.labels,
+          },
+        );
+        logSuccess(`${mr.created ? "Created MR/PR" : "MR/PR already open"}: ${mr.url}`);
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logWarning(`Could not create the MR/PR via API (${message}); open the link below instead.`);
+      }
+    }
+  }
+
+  logStep(`Generating MR/PR link: ${currentBranch} -> ${targetBranch}`);
+  const mrUrl = buildCreateMrUrl(parsed, currentBranch, targetBranch, { title, description });
   if (!mrUrl) {
-    logWarning(`Unsupported git hosting provider for remote: ${remoteUrl}`);
+    logWarning(
+      `Unsupported git hosting provider for remote: ${redactRemoteUrl(remoteUrl)} (map its host in hosts of cicd.config.js)`,
+    );
     return;
   }
 
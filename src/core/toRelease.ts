@@ -0,0 +1,140 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { cwd as getCwd } from "node:process";
+import { type SimpleGit } from "simple-git";
+import { loadCicdConfigBranches } from "../utils/config.js";
+import {
+  buildReleaseCommitMessage,
+  getPreferredRemote,
+  loadCommitLintRules,
+  pullIfPossible,
+  pushCurrentBranch,
+} from "../utils/index.js";
+import { logHeading, logStep, logSuccess } from "../utils/log.js";
+import { withGitOperations } from "../utils/ops.js";
+import { detectReleaseBump, formatSemVer, nextSemVer, parseSemVer, type ReleaseBump } from "../utils/semver.js";
+import { collectChangelogEntries } from "./toChangelog.js";
+
+type ToReleaseOptions = {
+  preid?: string;
+  dryRun?: boolean;
+};
+
+export type ReleasePlan = {
+  currentVersion: string;
+  nextVersion: string;
+  bump: ReleaseBump;
+  tag: string;
+  previousTag: string | null;
+  commits: number;
+};
+
+async function findLatestTag(git: SimpleGit): Promise<string | null> {
+  try {
+    const tag = (await git.raw(["describe", "--tags", "--abbrev=0", "HEAD"])).trim();
+    return tag || null;
+  } catch {
+    return null;
+  }
+}
+
+async function tagExists(git: SimpleGit, tag: string): Promise<boolean> {
+  const tags = (await git.raw(["tag", "--list", tag])).trim();
+  return tags.split("\n").includes(tag);
+}
+
+export async function toRelease(options: ToReleaseOptions = {}): Promise<ReleasePlan> {
+  const cwd = getCwd();
+  const preid = options.preid?.trim() ? options.preid.trim() : undefined;
+  if (preid && !/^[0-9A-Za-z-]+$/.test(preid)) throw new Error(`invalid pre-release id: ${preid}`);
+  return await withGitOperations(cwd, Boolean(options.dryRun), "to-release", (git) =>
+    runToRelease(git, cwd, preid, options),
+  );
+}
+
+async function runToRelease(
+  git: SimpleGit,
+  cwd: string,
+  preid: string | undefined,
+  options: ToReleaseOptions,
+): Promise<ReleasePlan> {
+  logStep(`Working directory: ${cwd}`);
+  logStep("Checking git repository");
+  const isRepo = await git.checkIsRepo();
+  if (!isRepo) throw new Error("not inside a git repository");
+
+  logStep("Detecting current branch");
+  const currentBranch = (await git.branch()).current;
+  const mainBranch = (await loadCicdConfigBranches(cwd)).main;
+  if (currentBranch !== mainBranch) {
+    throw new Error(`to-release only runs on '${mainBranch}' (current: '${currentBranch}')`);
+  }
+
+  const status = await git.status();
+  if (!status.isClean()) throw new Error("working tree has uncommitted changes; commit or stash them first");
+
+  logStep("Resolving remote/upstream");
+  const remote = await getPreferredRemote(git);
+  logStep(`Pulling latest from ${remote}/${currentBranch}`);
+  await pullIfPossible(git, remote, currentBranch, "to-release");
+
+  const packageJsonPath = join(cwd, "package.json");
+  const packageJson = await readFile(packageJsonPath, "utf8");
+  const rawVersion = (JSON.parse(packageJson) as { version?: unknown }).version;
+  const current = typeof rawVersion === "string" ? parseSemVer(rawVersion) : null;
+  if (!current) throw new Error(`package.json version is not a supported semver: ${String(rawVersion)}`);
+
+  const previousTag = await findLatestTag(git);
+  logStep(`Collecting commits since ${previousTag ?? "the first commit"}`);
+  const entries = await collectChangelogEntries(git, previousTag, "HEAD");
+  // Promoting a pre-release (1.3.0-rc.2 -> 1.3.0) needs no new commits.
+  const promoting = current.prerelease !== null && !preid;
+  const bump = detectReleaseBump(entries) ?? (promoting ? "patch" : null);
+  if (!bump) {
+    throw new Error(`no releasable commits (feat/fix/perf/breaking) since ${previousTag ?? "the first commit"}`);
+  }
+
+  const nextVersion = formatSemVer(nextSemVer(current, bump, preid));
+  const tag = `v${nextVersion}`;
+  if (await tagExists(git, tag)) throw new Error(`tag already exists: ${tag}`);
+  // Checked before package.json is touched, so a rule mismatch never leaves a half-made release behind.
+  const header = buildReleaseCommitMessage(await loadCommitLintRules(cwd, currentBranch), tag, currentBranch);
+
+  const plan: ReleasePlan = {
+    currentVersion: formatSemVer(current),
+    nextVersion,
+    bump,
+    tag,
+    previousTag,
+    commits: entries.length,
+  };
+
+  logHeading(`\nRelease plan (${bump}, ${entries.length} commit(s)):`);
+  process.stdout.write(`  version: ${plan.currentVersion} -> ${nextVersion}\n`);
+  process.stdout.write(`  commit:  ${header}\n`);
+  process.stdout.write(`  tag:     ${tag}\n`);
+  process.stdout.write(`  push:    ${currentBranch} and ${tag} -> ${remote}\n`);
+
+  logStep(`Updating package.json to ${nextVersion}`);
+  // dry-run leaves package.json alone; the git steps below are only recorded.
+  if (!options.dryRun) {
+    await writeFile(
+      packageJsonPath,
+      packageJson.replace(/("version"\s*:\s*")[^"]*(")/, `$1${nextVersion}$2`),
+      "utf8",
+    );
+  }
+  await git.add(["package.json"]);
+  await git.commit(header);
+
+  logStep(`Creating annotated tag ${tag}`);
+  const notes = entries.map((e) => `- ${e.type ? `${e.type}${e.scope ? `(${e.scope})` : ""}: ` : ""}${e.subject}`);
+  await git.raw(["tag", "-a", tag, "-m", [`Release ${tag}`, "", ...notes].join("\n")]);
+
+  logStep(`Pushing ${currentBranch} and ${tag} to ${remote}`);
+  await pushCurrentBranch(git, remote, currentBranch);
+  await git.push(remote, `refs/tags/${tag}`);
+
+  if (!options.dryRun) logSuccess(`Released ${tag}`);
+  return plan;
+}
@@ -1,35 +1,45 @@
 import { cwd as getCwd } from "node:process";
-import { simpleGit } from "simple-git";
+import { type SimpleGit } from "simple-git";
 import {
   commitIfDirty,
+  type CommitOptions,
   getPreferredRemote,
   pullIfPossible,
   pushCurrentBranch,
 } from "../utils/index.js";
+import { runChecks } from "../utils/checks.js";
 import { logStep, logSuccess } from "../utils/log.js";
+import { withGitOperations } from "../utils/ops.js";
+import { guardProtectedBranch } from "../utils/protect.js";
+import { warnIfToTestPending } from "../utils/state.js";
 
-type ToSelfOptions = {
-  commitMessage?: string;
-  commitType?: string;
+type ToSelfOptions = Omit<CommitOptions, "cwd"> & {
+  skipChecks?: boolean;
+  dryRun?: boolean;
 };
 
 export async function toSelf(options: ToSelfOptions = {}): Promise<void> {
   const cwd = getCwd();
-  const git = simpleGit({ baseDir: cwd });
+  await withGitOperations(cwd, Boolean(options.dryRun), "to-self", (git) => runToSelf(git, cwd, options));
+}
 
+async function runToSelf(git: SimpleGit, cwd: string, options: ToSelfOptions): Promise<void> {
   logStep(`Working directory: ${cwd}`);
 
   logStep("Checking git repository");
   const isRepo = await git.checkIsRepo();
   if (!isRepo) throw new Error("not inside a git repository");
+  await warnIfToTestPending(git);
 
   logStep("Detecting current branch");
-  const branch = (await git.branch()).current;
-  if (!branch || branch === "HEAD") {
+  const currentBranch = (await git.branch()).current;
+  if (!currentBranch || currentBranch === "HEAD") {
     throw new Error("detached HEAD; checkout a branch first");
   }
+  const branch = await guardProtectedBranch(git, cwd, currentBranch, "to-self");
 
-  await commitIfDirty(git, { commitMessage: options.commitMessage, commitType: options.commitType });
+  const { skipChecks, dryRun, ...commitOptions } = options;
+  await commitIfDirty(git, { ...commitOptions, cwd });
 
   logStep("Resolving remote/upstream");
   const remote = await getPreferredRemote(git);
@@ -38,9 +48,11 @@ export async function toSelf(options: ToSelfOptions = {}): Promise<void> {
   logStep(`Pulling latest from ${remote}/${branch}`);
   await pullIfPossible(git, remote, branch, "to-self");
 
+  await runChecks(git, { cwd, command: "to-self", remote, branch, skip: skipChecks });
+
   // Push current branch to a same-named branch on the selected remote.
   logStep(`Pushing to ${remote}/${branch}`);
   await pushCurrentBranch(git, remote, branch);
 
-  logSuccess(`Pushed ${branch} -> ${remote}/${branch}`);
+  if (!dryRun) logSuccess(`Pushed ${branch} -> ${remote}/${branch}`);
 }
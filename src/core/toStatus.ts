@@ -0,0 +1,220 @@
+import { cwd as getCwd } from "node:process";
+import { simpleGit, type SimpleGit } from "simple-git";
+import { loadCicdConfigBranches, loadCicdConfigTestBranches } from "../utils/config.js";
+import { getPreferredRemote, listMergedBranchRefs } from "../utils/index.js";
+import {
+  formatAheadBehind,
+  formatCheckResult,
+  formatGitStatusLine,
+  formatMuted,
+  formatTable,
+  logHeading,
+  logStep,
+  logSuccess,
+  logWarning,
+  setWarningsToStderr,
+} from "../utils/log.js";
+
+type ToStatusOptions = {
+  all?: boolean;
+  json?: boolean;
+  fetch?: boolean;
+};
+
+export type BranchStatus = {
+  branch: string;
+  current: boolean;
+  // <remote>/<branch>, or the upstream when that does not exist; null when the branch was never pushed.
+  remote: string | null;
+  ahead: number | null;
+  behind: number | null;
+  // Keyed by test/main branch name; null when that branch does not exist on the remote.
+  merged: Record<string, boolean | null>;
+};
+
+export type StatusCommit = {
+  hash: string;
+  subject: string;
+  author: string;
+  date: string;
+};
+
+export type StatusReport = {
+  remote: string;
+  main: string;
+  tests: string[];
+  branches: BranchStatus[];
+  changes: { path: string; index: string; workingDir: string }[];
+  unreleased: { test: string; commits: StatusCommit[] }[];
+};
+
+async function refExists(git: SimpleGit, ref: string): Promise<boolean> {
+  return Boolean((await git.raw(["rev-parse", "-q", "--verify", ref]).catch(() => "")).trim());
+}
+
+async function countAheadBehind(git: SimpleGit, branch: string, remoteRef: string): Promise<[number, number]> {
+  const output = await git.raw(["rev-list", "--left-right", "--count", `refs/heads/${branch}...${remoteRef}`]);
+  const [ahead = 0, behind = 0] = output.trim().split(/\s+/).map(Number);
+  return [ahead, behind];
+}
+
+async function collectBranches(
+  git: SimpleGit,
+  remote: string,
+  targets: readonly string[],
+  all: boolean,
+): Promise<BranchStatus[]> {
+  const current = (await git.raw(["symbolic-ref", "--short", "-q", "HEAD"]).catch(() => "")).trim();
+  if (!all && !current) throw new Error("HEAD is detached; checkout a branch or rerun with --all");
+
+  const output = await git.raw(["for-each-ref", "--format=%(refname:short)%09%(upstream:short)", "refs/heads"]);
+  const locals = output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => line.split("\t") as [string, string | undefined])
+    .filter(([branch]) => all || branch === current);
+
+  const merged = new Map<string, Set<string> | null>();
+  for (const target of targets) {
+    const ref = `refs/remotes/${remote}/${target}`;
+    const exists = await refExists(git, ref);
+    merged.set(target, exists ? await listMergedBranchRefs(git, remote, ref, ["refs/heads"]) : null);
+  }
+
+  const branches: BranchStatus[] = [];
+  for (const [branch, upstream] of locals) {
+    // Prefer the same-named remote branch: a branch created from <remote>/<main> may still track main.
+    const candidates = [`${remote}/${branch}`, upstream].filter((r): r is string => Boolean(r));
+    let remoteRef: string | null = null;
+    for (const candidate of candidates) {
+      if (await refExists(git, `refs/remotes/${candidate}`)) {
+        remoteRef = candidate;
+        break;
+      }
+    }
+    const [ahead, behind] = remoteRef
+      ? await countAheadBehind(git, branch, `refs/remotes/${remoteRef}`)
+      : [null, null];
+    const mergedInto: Record<string, boolean | null> = {};
+    for (const target of targets) {
+      const set = merged.get(target);
+      mergedInto[target] = set ? set.has(`refs/heads/${branch}`) : null;
+    }
+    branches.push({ branch, current: branch === current, remote: remoteRef, ahead, behind, merged: mergedInto });
+  }
+  return branches;
+}
+
+async function collectUnreleased(
+  git: SimpleGit,
+  remote: string,
+  main: string,
+  tests: readonly string[],
+): Promise<StatusReport["unreleased"]> {
+  const mainRef = `refs/remotes/${remote}/${main}`;
+  if (!(await refExists(git, mainRef))) return [];
+  const unreleased: StatusReport["unreleased"] = [];
+  for (const test of tests) {
+    const testRef = `refs/remotes/${remote}/${test}`;
+    if (!(await refExists(git, testRef))) continue;
+    const output = await git.raw([
+      "log",
+      "--no-merges",
+      "--format=%h%x09%an%x09%ad%x09%s",
+      "--date=short",
+      `${mainRef}..${testRef}`,
+    ]);
+    const commits = output
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const [hash = "", author = "", date = "", ...subject] = line.split("\t");
+        return { hash, author, date, subject: subject.join("\t") };
+      });
+    unreleased.push({ test, commits });
+  }
+  return unreleased;
+}
+
+function formatMerged(value: boolean | null, self: boolean): string {
+  if (self) return formatMuted("-");
+  if (value === null) return formatMuted("(no remote branch)");
+  return value ? formatCheckResult("passed", "merged") : formatMuted("not merged");
+}
+
+function printReport(report: StatusReport): void {
+  const targets = [...report.tests, report.main];
+  logHeading(`\nBranches (remote: ${report.remote}):`);
+  const rows = report.branches.map((b) => [
+    b.current ? `* ${b.branch}` : `  ${b.branch}`,
+    b.remote ?? formatMuted("(not pushed)"),
+    b.ahead === null || b.behind === null ? formatMuted("-") : formatAheadBehind(b.ahead, b.behind),
+    ...targets.map((t) => formatMerged(b.merged[t] ?? null, t === b.branch)),
+  ]);
+  process.stdout.write(`${formatTable(["branch", "remote", "ahead/behind", ...targets], rows)}\n`);
+
+  if (report.changes.length > 0) {
+    logHeading(`\nUncommitted changes (${report.changes.length}):`);
+    for (const file of report.changes) {
+      const line = formatGitStatusLine({ path: file.path, index: file.index, working_dir: file.workingDir });
+      process.stdout.write(`  ${line}\n`);
+    }
+  } else {
+    logSuccess("\nWorking tree clean.");
+  }
+
+  for (const { test, commits } of report.unreleased) {
+    const range = `${report.remote}/${test} not on ${report.remote}/${report.main}`;
+    if (commits.length === 0) {
+      logSuccess(`\nNo commits on ${range}.`);
+      continue;
+    }
+    logHeading(`\nCommits on ${range} (${commits.length}):`);
+    const commitRows = commits.map((c) => [c.hash, c.date, c.author, c.subject]);
+    process.stdout.write(`${formatTable(["commit", "date", "author", "subject"], commitRows)}\n`);
+  }
+}
+
+export async function toStatus(options: ToStatusOptions = {}): Promise<StatusReport> {
+  const cwd = getCwd();
+  const git = simpleGit({ baseDir: cwd });
+  const step = (message: string): void => {
+    if (!options.json) logStep(message);
+  };
+  // Config and fetch warnings must not end up in the JSON on stdout.
+  if (options.json) setWarningsToStderr(true);
+
+  step(`Working directory: ${cwd}`);
+  step("Checking git repository");
+  const isRepo = await git.checkIsRepo();
+  if (!isRepo) throw new Error("not inside a git repository");
+
+  step("Resolving remote/upstream");
+  const remote = await getPreferredRemote(git);
+  if (options.fetch !== false) {
+    step(`Fetching ${remote} (prune)`);
+    try {
+      await git.fetch(["--prune", remote]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logWarning(`Could not fetch ${remote} (${message.trim()}); using the last fetched state.`);
+    }
+  }
+
+  const main = (await loadCicdConfigBranches(cwd)).main;
+  const tests = (await loadCicdConfigTestBranches(cwd)).filter((t) => t !== main);
+  step("Collecting branch status");
+  const status = await git.status();
+  const report: StatusReport = {
+    remote,
+    main,
+    tests,
+    branches: await collectBranches(git, remote, [...tests, main], Boolean(options.all)),
+    changes: status.files.map((f) => ({ path: f.path, index: f.index, workingDir: f.working_dir })),
+    unreleased: await collectUnreleased(git, remote, main, tests),
+  };
+
+  if (options.json) process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  else printReport(report);
+  return report;
+}
@@ -1,87 +1,365 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
 import { cwd as getCwd } from "node:process";
-import { simpleGit } from "simple-git";
+import { simpleGit, type SimpleGit } from "simple-git";
 import {
+  buildMergeCommitMessage,
   commitIfDirty,
-  ensureLocalBranchFromRemote,
+  type CommitOptions,
   getPreferredRemote,
+  loadCommitLintRules,
   mergeRemoteBranchIntoCurrent,
   pullIfPossible,
   pushCurrentBranch,
+  remoteBranchExists,
 } from "../utils/index.js";
-import { logStep, logSuccess, logWarning } from "../utils/log.js";
+import { runChecks } from "../utils/checks.js";
+import { loadCicdConfigMergeStrategy, loadCicdConfigTestBranches, type MergeStrategy } from "../utils/config.js";
+import { formatCheckResult, formatTable, logHeading, logStep, logSuccess, logWarning } from "../utils/log.js";
+import { createChildGit, isRecordingGit, withGitOperations } from "../utils/ops.js";
+import { assertBranchNotProtected, guardProtectedBranch } from "../utils/protect.js";
+import { clearToTestState, readToTestState, type ToTestState, writeToTestState } from "../utils/state.js";
+import { createTemporaryWorktree, removeTemporaryWorktree, type TemporaryWorktree } from "../utils/worktree.js";
+import { rebuildTestBranch } from "./toTestRebuild.js";
+import { revertBranchFromTarget } from "./toTestRevert.js";
 
-type ToTestOptions = {
-  branch?: string;
-  commitMessage?: string;
-  commitType?: string;
+type ToTestOptions = Omit<CommitOptions, "cwd"> & {
+  branch?: string | string[];
+  skipChecks?: boolean;
+  strategy?: MergeStrategy;
+  continue?: boolean;
+  abort?: boolean;
+  rebuild?: boolean;
+  revert?: string;
+  yes?: boolean;
+  dryRun?: boolean;
+};
+
+type MergeTarget = {
+  cwd: string;
+  remote: string;
+  source: string;
+  target: string;
+  strategy?: MergeStrategy;
+  // Only a single-target run keeps the worktree on conflict for --continue.
+  resumable: boolean;
+};
+
+type TargetResult = {
+  target: string;
+  strategy: MergeStrategy | null;
+  status: "pushed" | "conflict" | "failed";
+  detail: string;
 };
 
 export async function toTest(options: ToTestOptions = {}): Promise<void> {
   const cwd = getCwd();
-  const targetBranch = options.branch?.trim() ? options.branch.trim() : "test";
-  const git = simpleGit({ baseDir: cwd });
+  if (options.dryRun && (options.continue || options.abort || options.rebuild || options.revert)) {
+    throw new Error("--dry-run only applies to a regular to-test run");
+  }
+  const mode = options.continue
+    ? " --continue"
+    : options.abort
+      ? " --abort"
+      : options.rebuild
+        ? " --rebuild"
+        : options.revert
+          ? ` --revert ${options.revert}`
+          : "";
+  await withGitOperations(cwd, Boolean(options.dryRun), `to-test${mode}`, (git) => runToTest(git, cwd, options));
+}
+
+async function runToTest(git: SimpleGit, cwd: string, options: ToTestOptions): Promise<void> {
+  const requested = (Array.isArray(options.branch) ? options.branch : [options.branch ?? ""])
+    .flatMap((b) => b.split(","))
+    .map((b) => b.trim())
+    .filter(Boolean);
+  const targetBranches = requested.length > 0 ? Array.from(new Set(requested)) : await loadCicdConfigTestBranches(cwd);
 
   logStep(`Working directory: ${cwd}`);
   logStep("Checking git repository");
   const isRepo = await git.checkIsRepo();
   if (!isRepo) throw new Error("not inside a git repository");
 
+  const pending = await readToTestState(git);
+  if (options.continue || options.abort) {
+    if (!pending) throw new Error("no unfinished to-test operation to continue or abort");
+    if (options.abort) return abortToTest(git, pending);
+    // protectedBranches may have changed since the run that stopped on the conflict.
+    await assertBranchNotProtected(cwd, pending.target, "to-test");
+    return continueToTest(git, pending);
+  }
+  if (pending) {
+    throw new Error(
+      `an unfinished to-test (${pending.source} -> ${pending.target}) exists; run to-test --continue or to-test --abort`,
+    );
+  }
+
   logStep("Detecting current branch");
-  const currentBranch = (await git.branch()).current;
-  if (!currentBranch || currentBranch === "HEAD") {
+  const detectedBranch = (await git.branch()).current;
+  if (!detectedBranch || detectedBranch === "HEAD") {
     throw new Error("detached HEAD; checkout a branch first");
   }
+  for (const target of targetBranches) await assertBranchNotProtected(cwd, target, "to-test");
+
+  const { skipChecks, dryRun, ...commitOptions } = options;
 
   logStep("Resolving remote");
   const remote = await getPreferredRemote(git);
 
-  if (currentBranch === targetBranch) {
+  if (options.rebuild) {
+    if (targetBranches.length !== 1) throw new Error("--rebuild works on one target branch at a time");
+    await rebuildTestBranch(git, { cwd, remote, target: targetBranches[0]!, yes: options.yes });
+    return;
+  }
+  if (options.revert) {
+    if (targetBranches.length !== 1) throw new Error("--revert works on one target branch at a time");
+    await revertBranchFromTarget(git, { cwd, remote, target: targetBranches[0]!, branch: options.revert, yes: options.yes });
+    return;
+  }
+
+  const currentBranch = await guardProtectedBranch(git, cwd, detectedBranch, "to-test");
+
+  if (targetBranches.length === 1 && currentBranch === targetBranches[0]) {
+    const targetBranch = currentBranch;
     logStep(`On '${targetBranch}'; pushing current branch`);
-    await commitIfDirty(git, options);
+    await commitIfDirty(git, { ...commitOptions, cwd });
     logStep(`Pulling latest from ${remote}/${targetBranch}`);
     await pullIfPossible(git, remote, targetBranch, "to-test");
+    await runChecks(git, { cwd, command: "to-test", remote, branch: targetBranch, skip: skipChecks });
     logStep(`Pushing to ${remote}/${targetBranch}`);
     await pushCurrentBranch(git, remote, targetBranch);
-    logSuccess(`Pushed ${targetBranch} -> ${remote}/${targetBranch}`);
+    if (!dryRun) logSuccess(`Pushed ${targetBranch} -> ${remote}/${targetBranch}`);
     return;
   }
+  if (targetBranches.includes(currentBranch)) {
+    throw new Error(`'${currentBranch}' is one of the target branches; run to-test from the source branch instead`);
+  }
 
   const sourceBranch = currentBranch;
   logStep(`Source branch: ${sourceBranch}`);
-  logStep(`Target branch: ${targetBranch}`);
+  logStep(`Target branch${targetBranches.length > 1 ? "es" : ""}: ${targetBranches.join(", ")}`);
 
-  await commitIfDirty(git, options);
+  await commitIfDirty(git, { ...commitOptions, cwd });
 
   logStep(`Syncing ${sourceBranch} before merge`);
   logStep(`Pulling latest from ${remote}/${sourceBranch}`);
   await pullIfPossible(git, remote, sourceBranch, "to-test");
+  await runChecks(git, { cwd, command: "to-test", remote, branch: sourceBranch, skip: skipChecks });
   logStep(`Pushing to ${remote}/${sourceBranch}`);
   await pushCurrentBranch(git, remote, sourceBranch);
 
-  const restoreBranch = async (): Promise<void> => {
+  if (targetBranches.length === 1) {
+    await mergeIntoTarget(git, {
+      cwd,
+      remote,
+      source: sourceBranch,
+      target: targetBranches[0]!,
+      strategy: options.strategy,
+      resumable: true,
+    });
+    return;
+  }
+
+  // Fan-out: a conflict or failure on one branch is reported but does not stop the others.
+  const results: TargetResult[] = [];
+  for (const target of targetBranches) {
     try {
-      const now = (await git.branch()).current;
-      if (now !== sourceBranch) await git.checkout(sourceBranch);
-    } catch {
-      logWarning(`Could not restore branch '${sourceBranch}'. Resolve git state manually if needed.`);
+      const strategy = await mergeIntoTarget(git, {
+        cwd,
+        remote,
+        source: sourceBranch,
+        target,
+        strategy: options.strategy,
+        resumable: false,
+      });
+      results.push({ target, strategy, status: "pushed", detail: dryRun ? "dry-run" : `${remote}/${target}` });
+    } catch (error) {
+      const detail = (error instanceof Error ? error.message : String(error)).split("\n")[0]!;
+      if (error instanceof MergeConflictError) {
+        results.push({ target, strategy: error.strategy, status: "conflict", detail });
+      } else {
+        results.push({ target, strategy: options.strategy ?? null, status: "failed", detail });
+      }
     }
+  }
+
+  logHeading(`\nto-test results (${sourceBranch}):`);
+  const rows = results.map((r) => [
+    r.target,
+    r.strategy ?? "-",
+    formatCheckResult(r.status === "pushed" ? "passed" : "failed", r.status),
+    r.detail,
+  ]);
+  process.stdout.write(`${formatTable(["branch", "strategy", "result", "detail"], rows)}\n`);
+
+  const failed = results.filter((r) => r.status !== "pushed");
+  if (failed.length > 0) {
+    throw new Error(
+      `${failed.length} of ${results.length} target branches were not updated: ${failed.map((r) => r.target).join(", ")}` +
+        ` (rerun to-test --branch <name> for each to resolve)`,
+    );
+  }
+}
+
+class MergeConflictError extends Error {
+  constructor(
+    message: string,
+    readonly strategy: MergeStrategy,
+  ) {
+    super(message);
+  }
+}
+
+async function mergeIntoTarget(git: SimpleGit, merge: MergeTarget): Promise<MergeStrategy> {
+  const { cwd, remote, source: sourceBranch, target: targetBranch } = merge;
+  const strategy = merge.strategy ?? (await loadCicdConfigMergeStrategy(cwd, targetBranch));
+  // Plain merges keep git's wording; the detached worktree would otherwise say "into HEAD".
+  const message =
+    strategy === "merge"
+      ? `Merge branch '${sourceBranch}' into ${targetBranch}`
+      : buildMergeCommitMessage(await loadCommitLintRules(cwd, targetBranch), sourceBranch, targetBranch);
+
+  // Merge in a throwaway worktree so the developer's checkout, index and editor state are never touched.
+  logStep(`Fetching ${remote}/${targetBranch}`);
+  const targetExists = await remoteBranchExists(git, remote, targetBranch);
+  if (targetExists) {
+    await git.fetch(remote, targetBranch);
+  } else {
+    logWarning(`Target branch '${targetBranch}' not found on ${remote}; creating it from ${sourceBranch}.`);
+  }
+
+  // Rebase replays the source on top of the target, so its worktree starts from the source instead.
+  const base = strategy === "rebase" || !targetExists ? "HEAD" : `${remote}/${targetBranch}`;
+  const worktree = await createTemporaryWorktree(git, base);
+  logStep(`Using temporary worktree: ${worktree.path}`);
+  const state: ToTestState = {
+    source: sourceBranch,
+    target: targetBranch,
+    remote,
+    strategy,
+    message,
+    step: strategy === "rebase" ? "rebasing" : "merging",
+    worktree: worktree.path,
+    startedAt: new Date().toISOString(),
   };
 
   try {
-    logStep(`Checking out target branch '${targetBranch}'`);
-    await ensureLocalBranchFromRemote(git, remote, targetBranch);
+    if (strategy === "rebase") {
+      if (targetExists) {
+        logStep(`Rebasing ${sourceBranch} onto ${remote}/${targetBranch}`);
+        await worktree.git.rebase([`${remote}/${targetBranch}`]);
+      }
+    } else {
+      logStep(`Merging ${remote}/${sourceBranch} -> ${targetBranch} (${strategy})`);
+      await mergeRemoteBranchIntoCurrent(worktree.git, remote, sourceBranch, "to-test", message, strategy);
+    }
+  } catch (error) {
+    const conflicted = (await worktree.git.status()).conflicted;
+    if (conflicted.length === 0 || !merge.resumable) {
+      await removeTemporaryWorktree(git, worktree);
+      if (conflicted.length === 0) throw error;
+      const action = strategy === "rebase" ? "rebasing onto" : "merging into";
+      throw new MergeConflictError(`${action} ${targetBranch} conflicts (${conflicted.join(", ")})`, strategy);
+    }
+    // Keep the worktree so the conflicts can be resolved there and the merge resumed.
+    await writeToTestState(git, state);
+    throw conflictError(state);
+  }
 
-    logStep(`Pulling latest from ${remote}/${targetBranch}`);
-    await pullIfPossible(git, remote, targetBranch, "to-test");
+  await pushMergedTarget(git, worktree, { ...state, step: "merged" }, merge.resumable);
+  return strategy;
+}
 
-    logStep(`Merging ${remote}/${sourceBranch} -> ${targetBranch}`);
-    await mergeRemoteBranchIntoCurrent(git, remote, sourceBranch, "to-test");
+function conflictError(state: ToTestState): Error {
+  const action = state.step === "rebasing" ? "rebasing" : "merging";
+  const preposition = state.step === "rebasing" ? "onto" : "into";
+  return new Error(
+    `${action} ${state.source} ${preposition} ${state.target} conflicts; nothing was pushed. ` +
+      `Resolve the conflicts in ${state.worktree}, then run to-test --continue (or to-test --abort).`,
+  );
+}
 
-    logStep(`Pushing to ${remote}/${targetBranch}`);
-    await pushCurrentBranch(git, remote, targetBranch);
+async function pushMergedTarget(
+  git: SimpleGit,
+  worktree: TemporaryWorktree,
+  state: ToTestState,
+  resumable = true,
+): Promise<void> {
+  logStep(`Pushing to ${state.remote}/${state.target}`);
+  try {
+    await worktree.git.push(state.remote, `HEAD:refs/heads/${state.target}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!resumable) {
+      await removeTemporaryWorktree(git, worktree);
+      throw new Error(`push to ${state.remote}/${state.target} failed: ${message.trim()}`);
+    }
+    await writeToTestState(git, state);
+    throw new Error(`push to ${state.remote}/${state.target} failed: ${message.trim()}\nFix it, then run to-test --continue.`);
+  }
+  await removeTemporaryWorktree(git, worktree);
+  if (isRecordingGit(git)) return;
+  await clearToTestState(git);
+  logSuccess(`Pushed ${state.target} -> ${state.remote}/${state.target}`);
+}
+
+async function continueToTest(git: SimpleGit, state: ToTestState): Promise<void> {
+  const worktree: TemporaryWorktree = {
+    path: state.worktree,
+    git: createChildGit(git, state.worktree, simpleGit({ baseDir: state.worktree })),
+  };
+  if (!existsSync(worktree.path)) {
+    await clearToTestState(git);
+    throw new Error(`worktree ${worktree.path} no longer exists; run to-test again`);
+  }
+
+  logStep(`Continuing ${state.source} -> ${state.target}`);
+  if (state.step !== "merged") {
+    const conflicted = (await worktree.git.status()).conflicted;
+    const unresolved: string[] = [];
+    for (const file of conflicted) {
+      const content = await readFile(join(worktree.path, file), "utf8").catch(() => "");
+      if (/^(<{7}|={7}|>{7})( |$)/m.test(content)) unresolved.push(file);
+    }
+    if (unresolved.length > 0) {
+      process.stderr.write(`Unresolved conflicts in ${worktree.path}:\n`);
+      for (const file of unresolved) process.stderr.write(`- ${file}\n`);
+      throw new Error("please resolve conflicts, then rerun to-test --continue");
+    }
+    if (conflicted.length > 0) await worktree.git.add(conflicted);
+
+    if (state.step === "rebasing") {
+      logStep("Continuing rebase");
+      try {
+        await worktree.git.env({ ...process.env, GIT_EDITOR: "true" }).rebase(["--continue"]);
+      } catch (error) {
+        // The next replayed commit may conflict as well; keep the state for another round.
+        if ((await worktree.git.status()).conflicted.length === 0) throw error;
+        throw conflictError(state);
+      }
+    } else {
+      logStep("Committing merge");
+      await worktree.git.raw(
+        state.strategy === "squash" && state.message ? ["commit", "-m", state.message] : ["commit", "--no-edit"],
+      );
+    }
+  }
 
-    logSuccess(`Pushed ${targetBranch} -> ${remote}/${targetBranch}`);
-  } finally {
-    await restoreBranch();
+  await pushMergedTarget(git, worktree, { ...state, step: "merged" });
+}
+
+async function abortToTest(git: SimpleGit, state: ToTestState): Promise<void> {
+  logStep(`Aborting ${state.source} -> ${state.target}`);
+  const worktree: TemporaryWorktree = {
+    path: state.worktree,
+    git: createChildGit(git, state.worktree, simpleGit({ baseDir: state.worktree })),
+  };
+  if (existsSync(worktree.path)) {
+    await worktree.git.raw([state.step === "rebasing" ? "rebase" : "merge", "--abort"]).catch(() => undefined);
+    await removeTemporaryWorktree(git, worktree);
   }
+  await clearToTestState(git);
+  logSuccess(`Aborted; ${state.target} was not pushed.`);
 }
@@ -0,0 +1,171 @@
+import inquirer from "inquirer";
+import { type SimpleGit } from "simple-git";
+import {
+  loadCicdConfigBranches,
+  loadCicdConfigRebuildBranches,
+  loadCicdConfigTestBranches,
+} from "../utils/config.js";
+import { matchesBranchPattern } from "../utils/glob.js";
+import { ensureLocalBranchFromRemote, mergeRemoteBranchIntoCurrent, remoteBranchExists } from "../utils/index.js";
+import { formatCheckResult, formatTable, logHeading, logStep, logSuccess, logWarning } from "../utils/log.js";
+import { createTemporaryWorktree, removeTemporaryWorktree } from "../utils/worktree.js";
+
+type RebuildOptions = {
+  cwd: string;
+  remote: string;
+  target: string;
+  yes?: boolean;
+};
+
+type RebuildResult = {
+  branch: string;
+  status: "merged" | "conflict";
+  detail: string;
+};
+
+async function listRemoteBranches(git: SimpleGit, remote: string, mergedInto?: string): Promise<string[]> {
+  const output = await git.raw([
+    "branch",
+    "-r",
+    "--format=%(refname:short)",
+    ...(mergedInto ? ["--merged", mergedInto] : []),
+  ]);
+  return output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith(`${remote}/`) && line !== `${remote}/HEAD`)
+    .map((line) => line.slice(remote.length + 1));
+}
+
+async function selectRebuildBranches(
+  git: SimpleGit,
+  options: RebuildOptions,
+  mainBranch: string,
+  excluded: readonly string[],
+): Promise<string[]> {
+  const { cwd, remote, target } = options;
+  const configured = await loadCicdConfigRebuildBranches(cwd);
+  if (configured.length > 0) {
+    const all = await listRemoteBranches(git, remote);
+    // Config entries are branch patterns matched against every remote branch, not only the merged ones.
+    return all.filter((b) => !excluded.includes(b) && configured.some((p) => matchesBranchPattern(b, p)));
+  }
+
+  if (!process.stdin.isTTY) {
+    throw new Error("no rebuild.branches in cicd.config.js; run to-test --rebuild in a terminal to pick branches");
+  }
+  const inMain = new Set(await listRemoteBranches(git, remote, `${remote}/${mainBranch}`));
+  const candidates = (await remoteBranchExists(git, remote, target))
+    ? (await listRemoteBranches(git, remote, `${remote}/${target}`)).filter(
+        (b) => !inMain.has(b) && !excluded.includes(b),
+      )
+    : [];
+  if (candidates.length === 0) {
+    logWarning(`No feature branches found in ${remote}/${target} that are not already in ${mainBranch}.`);
+    return [];
+  }
+  const answers = await inquirer.prompt<{ branches: string[] }>([
+    {
+      type: "checkbox",
+      name: "branches",
+      message: `Feature branches to re-merge into ${target}:`,
+      choices: candidates.map((b) => ({ name: b, value: b, checked: true })),
+    },
+  ]);
+  return answers.branches;
+}
+
+export async function rebuildTestBranch(git: SimpleGit, options: RebuildOptions): Promise<void> {
+  const { cwd, remote, target } = options;
+  const mainBranch = (await loadCicdConfigBranches(cwd)).main;
+  const currentBranch = (await git.branch()).current;
+  if (currentBranch === target) {
+    throw new Error(`cannot rebuild '${target}' while it is checked out; switch to another branch first`);
+  }
+
+  logStep(`Fetching ${remote}`);
+  await git.fetch(["--prune", remote]);
+  if (!(await remoteBranchExists(git, remote, mainBranch))) {
+    throw new Error(`main branch '${mainBranch}' not found on ${remote}`);
+  }
+  const targetExists = await remoteBranchExists(git, remote, target);
+  const remoteSha = targetExists ? (await git.revparse([`${remote}/${target}`])).trim() : "";
+
+  const excluded = [mainBranch, target, ...(await loadCicdConfigTestBranches(cwd))];
+  const branches = await selectRebuildBranches(git, options, mainBranch, excluded);
+  logStep(`Rebuilding ${target} from ${remote}/${mainBranch} + ${branches.length} branch(es)`);
+
+  const locals = await git.branchLocal();
+  const localSha = locals.all.includes(target) ? locals.branches[target]!.commit : null;
+  const worktree = await createTemporaryWorktree(git, `${remote}/${mainBranch}`);
+  logStep(`Using temporary worktree: ${worktree.path}`);
+
+  let pushed = false;
+  try {
+    await ensureLocalBranchFromRemote(worktree.git, remote, target);
+    await worktree.git.raw(["reset", "--hard", `${remote}/${mainBranch}`]);
+
+    const results: RebuildResult[] = [];
+    for (const branch of branches) {
+      logStep(`Merging ${remote}/${branch} -> ${target}`);
+      try {
+        await mergeRemoteBranchIntoCurrent(
+          worktree.git,
+          remote,
+          branch,
+          "to-test --rebuild",
+          `Merge branch '${branch}' into ${target}`,
+        );
+        results.push({ branch, status: "merged", detail: "clean" });
+      } catch (error) {
+        const conflicted = (await worktree.git.status()).conflicted;
+        await worktree.git.raw(["merge", "--abort"]).catch(() => undefined);
+        if (conflicted.length === 0) throw error;
+        results.push({ branch, status: "conflict", detail: `skipped (${conflicted.join(", ")})` });
+      }
+    }
+
+    logHeading(`\nRebuild of ${target} (from ${remote}/${mainBranch}):`);
+    const rows = results.map((r) => [
+      r.branch,
+      formatCheckResult(r.status === "merged" ? "passed" : "failed", r.status),
+      r.detail,
+    ]);
+    process.stdout.write(`${formatTable(["branch", "result", "detail"], rows)}\n`);
+
+    if (!options.yes) {
+      if (!process.stdin.isTTY) throw new Error("force-pushing a rebuilt branch needs confirmation; rerun with --yes");
+      const answers = await inquirer.prompt<{ push: boolean }>([
+        {
+          type: "confirm",
+          name: "push",
+          message: `Force-push the rebuilt ${target} to ${remote}? This replaces its current history.`,
+          default: false,
+        },
+      ]);
+      if (!answers.push) {
+        logWarning(`Cancelled; ${remote}/${target} was not changed.`);
+        return;
+      }
+    }
+
+    logStep(`Force-pushing ${target} to ${remote} (with lease)`);
+    await worktree.git.push(remote, `${target}:refs/heads/${target}`, [
+      `--force-with-lease=refs/heads/${target}:${remoteSha}`,
+    ]);
+    pushed = true;
+
+    const conflicts = results.filter((r) => r.status === "conflict");
+    if (conflicts.length > 0) {
+      logWarning(`Not merged (conflicts): ${conflicts.map((r) => r.branch).join(", ")}; run to-test on those branches.`);
+    }
+    logSuccess(`Rebuilt ${target} -> ${remote}/${target}`);
+  } finally {
+    await removeTemporaryWorktree(git, worktree);
+    // Leave the local target branch where it was unless the rebuild actually reached the remote.
+    if (!pushed) {
+      if (localSha) await git.raw(["branch", "-f", target, localSha]).catch(() => undefined);
+      else await git.raw(["branch", "-D", target]).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import inquirer from "inquirer";
+import { type SimpleGit } from "simple-git";
+import { loadCicdConfigBranches } from "../utils/config.js";
+import {
+  buildRevertCommitMessage,
+  generatedMergeSubjects,
+  loadCommitLintRules,
+  remoteBranchExists,
+} from "../utils/index.js";
+import { logHeading, logStep, logSuccess, logWarning } from "../utils/log.js";
+import { buildCommitMessage } from "../utils/message.js";
+import { withTemporaryWorktree } from "../utils/worktree.js";
+
+type RevertOptions = {
+  cwd: string;
+  remote: string;
+  target: string;
+  branch: string;
+  yes?: boolean;
+};
+
+type BranchCommit = {
+  sha: string;
+  parents: string[];
+  date: string;
+  subject: string;
+  // false: only the merged side's ancestry ties it to the branch, so it needs an explicit confirmation.
+  bySubject: boolean;
+};
+
+async function isAncestor(git: SimpleGit, ancestor: string, ref: string): Promise<boolean> {
+  // `merge-base --is-ancestor` only reports through its exit code, which simple-git does not surface here.
+  const base = (await git.raw(["merge-base", ancestor, ref]).catch(() => "")).trim();
+  return base === ancestor;
+}
+
+async function resolveBranchTip(git: SimpleGit, remote: string, branch: string): Promise<string | null> {
+  if (await remoteBranchExists(git, remote, branch)) {
+    await git.fetch(remote, branch);
+    return (await git.revparse([`${remote}/${branch}`])).trim();
+  }
+  const locals = await git.branchLocal();
+  if (locals.all.includes(branch)) return (await git.revparse([branch])).trim();
+  return null;
+}
+
+// Matches first-parent commits on the target (since main) whose subject is one to-test generates for merges/squashes
+// of the branch (so branches that were since deleted are still found), or whose merged side belongs to the branch.
+// A merged side only belongs to the branch when it was not already on the target before the branch first came in:
+// otherwise merging another feature (or pulling the target back) into the branch would pull those merges in too.
+async function findBranchCommits(
+  git: SimpleGit,
+  options: RevertOptions,
+  mainBranch: string,
+  branchTip: string | null,
+): Promise<BranchCommit[]> {
+  const { remote, target, branch } = options;
+  const range = [`${remote}/${target}`];
+  const hasMain = await remoteBranchExists(git, remote, mainBranch);
+  if (hasMain) range.push(`^${remote}/${mainBranch}`);
+  const output = await git.raw(["log", "--first-parent", "--format=%H%x09%P%x09%cs%x09%s", ...range]);
+  const bodies = await git.raw(["log", "--format=%B", ...range]);
+  const reverted = new Set(Array.from(bodies.matchAll(/This reverts commit ([0-9a-f]{40})/g), (m) => m[1]!));
+
+  const mergeSubjects = generatedMergeSubjects(remote, branch);
+
+  const candidates: BranchCommit[] = [];
+  for (const line of output.split("\n").filter(Boolean)) {
+    const [sha = "", parentList = "", date = "", subject = ""] = line.split("\t");
+    if (reverted.has(sha)) continue;
+    const parents = parentList.split(" ").filter(Boolean);
+    const bySubject = mergeSubjects.some((pattern) => pattern.test(subject));
+    // Merges of main itself are ancestors of every feature branch, so they never count.
+    const byAncestry =
+      parents.length > 1 &&
+      branchTip !== null &&
+      (await isAncestor(git, parents[1]!, branchTip)) &&
+      !(hasMain && (await isAncestor(git, parents[1]!, `${remote}/${mainBranch}`)));
+    if (bySubject || byAncestry) candidates.push({ sha, parents, date, subject, bySubject });
+  }
+
+  // The target as it was before the branch's first merge: the first parent of the oldest subject match
+  // (or, when nothing matches by subject, of the oldest candidate).
+  const first = [...candidates].reverse().find((c) => c.bySubject) ?? candidates[candidates.length - 1];
+  const before = first?.parents[0];
+  const commits: BranchCommit[] = [];
+  for (const commit of candidates) {
+    if (commit.bySubject || !before || !(await isAncestor(git, commit.parents[1]!, before))) commits.push(commit);
+  }
+  return commits;
+}
+
+export async function revertBranchFromTarget(git: SimpleGit, options: RevertOptions): Promise<void> {
+  const { cwd, remote, target, branch } = options;
+  if (branch === target) throw new Error(`cannot revert '${target}' out of itself`);
+
+  logStep(`Fetching ${remote}/${target}`);
+  if (!(await remoteBranchExists(git, remote, target))) throw new Error(`target branch '${target}' not found on ${remote}`);
+  await git.fetch(remote, target);
+
+  const mainBranch = (await loadCicdConfigBranches(cwd)).main;
+  const branchTip = await resolveBranchTip(git, remote, branch);
+  if (!branchTip) logWarning(`Branch '${branch}' not found; matching merge commits by message only.`);
+
+  logStep(`Looking for commits that brought ${branch} into ${target}`);
+  const found = await findBranchCommits(git, options, mainBranch, branchTip);
+  if (found.length === 0) {
+    throw new Error(
+      `no merge commits of '${branch}' found on ${remote}/${target} ` +
+        "(fast-forwarded or rebased merges cannot be located; revert those commits manually)",
+    );
+  }
+
+  logHeading(`\nCommits to revert from ${target} (${found.length}):`);
+  for (const commit of found) {
+    const note = commit.bySubject ? "" : " (matched by ancestry only)";
+    process.stdout.write(`  ${commit.sha.slice(0, 7)} ${commit.date} ${commit.subject}${note}\n`);
+  }
+  let commits = found.filter((c) => c.bySubject);
+  if (options.yes) {
+    if (commits.length < found.length) {
+      logWarning("Skipping the commits matched by ancestry only; revert them interactively to include them.");
+    }
+  } else {
+    if (!process.stdin.isTTY) throw new Error("reverting needs confirmation; rerun with --yes");
+    if (commits.length < found.length) {
+      // Ancestry-only matches may be other features the branch merged in, so they start unchecked.
+      const answers = await inquirer.prompt<{ commits: BranchCommit[] }>([
+        {
+          type: "checkbox",
+          name: "commits",
+          message: "Commits to revert:",
+          choices: found.map((c) => ({
+            name: `${c.sha.slice(0, 7)} ${c.subject}${c.bySubject ? "" : " (matched by ancestry only)"}`,
+            value: c,
+            checked: c.bySubject,
+          })),
+        },
+      ]);
+      commits = answers.commits;
+    }
+    const answers = await inquirer.prompt<{ revert: boolean }>([
+      { type: "confirm", name: "revert", message: `Revert these from ${target} and push?`, default: false },
+    ]);
+    if (!answers.revert || commits.length === 0) {
+      logWarning(`Cancelled; ${remote}/${target} was not changed.`);
+      return;
+    }
+  }
+  if (commits.length === 0) throw new Error(`only ancestry matches found for '${branch}'; rerun without --yes to pick them`);
+
+  const header = buildRevertCommitMessage(await loadCommitLintRules(cwd, target), branch, target);
+  const body = [
+    `Revert ${branch} out of ${target}.`,
+    "",
+    ...commits.map((c) => `This reverts commit ${c.sha}.`),
+  ].join("\n");
+
+  await withTemporaryWorktree(git, `${remote}/${target}`, async (worktree) => {
+    // Log order is newest first, which is also the order the reverts apply cleanly in.
+    for (const commit of commits) {
+      logStep(`Reverting ${commit.sha.slice(0, 7)} ${commit.subject}`);
+      try {
+        await worktree.git.raw([
+          "revert",
+          "--no-commit",
+          ...(commit.parents.length > 1 ? ["-m", "1"] : []),
+          commit.sha,
+        ]);
+      } catch {
+        const conflicted = (await worktree.git.status()).conflicted;
+        throw new Error(
+          `reverting ${commit.sha.slice(0, 7)} conflicts${conflicted.length > 0 ? ` (${conflicted.join(", ")})` : ""}; ` +
+            `nothing was pushed. Revert it on ${target} manually.`,
+        );
+      }
+    }
+
+    const staged = (await worktree.git.diff(["--cached", "--name-only"])).trim();
+    if (!staged) throw new Error(`reverting ${branch} leaves ${target} unchanged; nothing to push`);
+    await worktree.git.commit(buildCommitMessage({ header, body }));
+
+    logStep(`Pushing to ${remote}/${target}`);
+    await worktree.git.push(remote, `HEAD:refs/heads/${target}`);
+  });
+
+  logSuccess(`Reverted ${branch} from ${target} -> ${remote}/${target}`);
+}
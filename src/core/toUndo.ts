@@ -0,0 +1,285 @@
+import { resolve } from "node:path";
+import { cwd as getCwd } from "node:process";
+import inquirer from "inquirer";
+import { simpleGit, type SimpleGit } from "simple-git";
+import { loadCicdConfigProtectedBranches } from "../utils/config.js";
+import { buildRevertCommitMessage, loadCommitLintRules } from "../utils/index.js";
+import {
+  type JournalEntry,
+  type JournalStep,
+  readJournal,
+  type RefChange,
+  type TagChange,
+  writeJournal,
+} from "../utils/journal.js";
+import { logHeading, logStep, logSuccess, logWarning } from "../utils/log.js";
+import { buildCommitMessage } from "../utils/message.js";
+import { printGitOperations } from "../utils/ops.js";
+import { isProtectedBranch } from "../utils/protect.js";
+import { readToTestState } from "../utils/state.js";
+
+type ToUndoOptions = {
+  yes?: boolean;
+};
+
+type RemoteUndo = RefChange & {
+  remote: string;
+  action: "restore" | "delete" | "revert";
+  // Header of the revert commit, built (and linted) before anything is changed.
+  header?: string;
+};
+
+function short(sha: string | null): string {
+  return sha ? sha.slice(0, 7) : "(none)";
+}
+
+async function localRef(git: SimpleGit, branch: string): Promise<string | null> {
+  const sha = (await git.raw(["rev-parse", "-q", "--verify", `refs/heads/${branch}`]).catch(() => "")).trim();
+  return sha || null;
+}
+
+async function remoteRef(git: SimpleGit, remote: string, branch: string): Promise<string | null> {
+  const output = await git.raw(["ls-remote", remote, `refs/heads/${branch}`]);
+  return output.trim().split(/\s+/)[0] || null;
+}
+
+async function localTag(git: SimpleGit, tag: string): Promise<string | null> {
+  const sha = (await git.raw(["rev-parse", "-q", "--verify", `refs/tags/${tag}`]).catch(() => "")).trim();
+  return sha || null;
+}
+
+async function remoteTag(git: SimpleGit, remote: string, tag: string): Promise<string | null> {
+  const output = await git.raw(["ls-remote", remote, `refs/tags/${tag}`]);
+  const line = output.split("\n").find((l) => l.split(/\s+/)[1] === `refs/tags/${tag}`);
+  return line?.split(/\s+/)[0] || null;
+}
+
+async function currentBranchOf(git: SimpleGit): Promise<string | null> {
+  const branch = (await git.raw(["symbolic-ref", "--short", "-q", "HEAD"]).catch(() => "")).trim();
+  return branch || null;
+}
+
+async function hasCommit(git: SimpleGit, sha: string): Promise<boolean> {
+  const resolved = (await git.raw(["rev-parse", "-q", "--verify", `${sha}^{commit}`]).catch(() => "")).trim();
+  return resolved === sha;
+}
+
+// Folds every step into one change per ref: where it was before the command and where the command left it.
+function netChanges(steps: readonly JournalStep[], remote: boolean): RefChange[] {
+  const changes = new Map<string, RefChange>();
+  for (const step of steps) {
+    for (const ref of step.refs) {
+      if ((ref.remote !== null) !== remote) continue;
+      const key = `${ref.remote ?? ""}\t${ref.branch}`;
+      const existing = changes.get(key);
+      if (existing) existing.after = ref.after;
+      else changes.set(key, { ...ref });
+    }
+  }
+  return Array.from(changes.values()).filter((c) => c.before !== c.after);
+}
+
+function netTagChanges(steps: readonly JournalStep[], remote: boolean): TagChange[] {
+  const changes = new Map<string, TagChange>();
+  for (const step of steps) {
+    for (const tag of step.tags ?? []) {
+      if ((tag.remote !== null) !== remote) continue;
+      const key = `${tag.remote ?? ""}\t${tag.tag}`;
+      const existing = changes.get(key);
+      if (existing) existing.after = tag.after;
+      else changes.set(key, { ...tag });
+    }
+  }
+  return Array.from(changes.values()).filter((c) => c.before !== c.after);
+}
+
+function headChange(entry: JournalEntry): { before: string | null; after: string | null } | null {
+  const steps = entry.steps.filter((s) => s.head && resolve(s.cwd) === resolve(entry.cwd));
+  const first = steps[0]?.head;
+  const last = steps[steps.length - 1]?.head;
+  if (!first || !last || first.before === last.after) return null;
+  return { before: first.before, after: last.after };
+}
+
+function describeRemoteUndo(change: RemoteUndo): string {
+  const ref = `${change.remote}/${change.branch}`;
+  if (change.action === "delete") return `delete ${ref} (created by this operation)`;
+  if (change.action === "revert") return `push a revert commit to ${ref} restoring ${short(change.before)} (protected)`;
+  return `restore ${ref} to ${short(change.before)} (force-with-lease, currently ${short(change.after)})`;
+}
+
+function describeLocalUndo(change: RefChange): string {
+  if (!change.before) return `delete local branch ${change.branch} (created by this operation)`;
+  if (!change.after) return `restore deleted local branch ${change.branch} at ${short(change.before)}`;
+  return `move local branch ${change.branch} back to ${short(change.before)} (currently ${short(change.after)})`;
+}
+
+function describeTagUndo(change: TagChange): string {
+  const where = change.remote ? `tag ${change.tag} on ${change.remote}` : `local tag ${change.tag}`;
+  if (!change.before) return `delete ${where} (created by this operation)`;
+  return `move ${where} back to ${short(change.before)} (currently ${short(change.after)})`;
+}
+
+async function undoTag(git: SimpleGit, change: TagChange): Promise<void> {
+  const { remote, tag, before, after } = change;
+  if (remote) {
+    const lease = `--force-with-lease=refs/tags/${tag}:${after ?? ""}`;
+    logStep(before ? `Restoring tag ${tag} on ${remote}` : `Deleting tag ${tag} on ${remote}`);
+    await git.push(remote, `${before ?? ""}:refs/tags/${tag}`, [lease]);
+  } else if (before) {
+    logStep(`Moving tag ${tag} back to ${short(before)}`);
+    await git.raw(["update-ref", `refs/tags/${tag}`, before, after ?? ""]);
+  } else {
+    logStep(`Deleting local tag ${tag}`);
+    await git.raw(["tag", "-d", tag]);
+  }
+}
+
+async function undoRemote(git: SimpleGit, entry: JournalEntry, change: RemoteUndo): Promise<void> {
+  const { remote, branch, before, after } = change;
+  const lease = `--force-with-lease=refs/heads/${branch}:${after ?? ""}`;
+  if (change.action === "delete") {
+    logStep(`Deleting ${remote}/${branch}`);
+    await git.push(remote, `:refs/heads/${branch}`, [lease]);
+    return;
+  }
+  if (change.action === "restore") {
+    logStep(`Restoring ${remote}/${branch} to ${short(before)}`);
+    await git.push(remote, `${before}:refs/heads/${branch}`, [lease]);
+    return;
+  }
+
+  // Protected branches are never rewritten: a new commit on top brings back the previous tree instead.
+  logStep(`Reverting ${remote}/${branch} to ${short(before)}`);
+  const header = change.header ?? "";
+  const body = `Undo ${entry.command} on ${branch}.\n\nThis reverts ${before}..${after}.`;
+  const sha = (
+    await git.raw(["commit-tree", `${before}^{tree}`, "-p", after ?? "", "-m", buildCommitMessage({ header, body })])
+  ).trim();
+  await git.push(remote, `${sha}:refs/heads/${branch}`, [lease]);
+}
+
+// Replays the local steps backwards: HEAD goes back first, then each ref it touched. The checked-out branch is
+// reset softly over commits (so committed changes come back staged) and with --keep over anything else.
+async function undoLocal(git: SimpleGit, entry: JournalEntry): Promise<void> {
+  for (const step of [...entry.steps].reverse()) {
+    const local = step.refs.filter((r) => r.remote === null);
+    if (step.head && step.head.before !== step.head.after && resolve(step.cwd) === resolve(entry.cwd)) {
+      if (step.head.before) {
+        logStep(`Checking out ${step.head.before}`);
+        await git.checkout(step.head.before);
+      } else {
+        logWarning("HEAD was detached before this operation; staying on the current branch.");
+      }
+    }
+    for (const ref of local) {
+      const current = await currentBranchOf(git);
+      if (ref.branch === current) {
+        if (!ref.before) throw new Error(`cannot delete '${ref.branch}' while it is checked out`);
+        // to-release's commit only holds the generated version bump, so package.json goes back with it.
+        const mode = step.args[0] === "commit" && entry.command !== "to-release" ? "--soft" : "--keep";
+        logStep(`Resetting ${ref.branch} to ${short(ref.before)} (${mode})`);
+        await git.raw(["reset", mode, ref.before]);
+      } else if (!ref.before) {
+        logStep(`Deleting local branch ${ref.branch} (was ${short(ref.after)})`);
+        await git.raw(["branch", "-D", ref.branch]);
+      } else {
+        logStep(`Moving ${ref.branch} to ${short(ref.before)}`);
+        await git.raw(["branch", "-f", ref.branch, ref.before]);
+      }
+    }
+  }
+}
+
+export async function toUndo(options: ToUndoOptions = {}): Promise<void> {
+  const cwd = getCwd();
+  const git = simpleGit({ baseDir: cwd });
+
+  logStep(`Working directory: ${cwd}`);
+  logStep("Checking git repository");
+  const isRepo = await git.checkIsRepo();
+  if (!isRepo) throw new Error("not inside a git repository");
+  if (await readToTestState(git)) {
+    throw new Error("an unfinished to-test is pending; run to-test --continue or to-test --abort first");
+  }
+
+  const journal = await readJournal(git);
+  const entry = [...journal].reverse().find((e) => !e.undoneAt);
+  if (!entry) throw new Error("nothing to undo (no recorded operations)");
+
+  logHeading(`\nLast operation: ${entry.command} (${entry.startedAt}${entry.ok ? "" : ", failed"})`);
+  printGitOperations(entry.steps, entry.cwd, "Recorded git operations");
+
+  const protectedBranches = await loadCicdConfigProtectedBranches(cwd);
+  const remoteChanges: RemoteUndo[] = netChanges(entry.steps, true).map((c) => ({
+    ...c,
+    remote: c.remote ?? "",
+    action: isProtectedBranch(c.branch, protectedBranches) ? "revert" : c.before ? "restore" : "delete",
+  }));
+  const localChanges = netChanges(entry.steps, false);
+  const tagChanges = [...netTagChanges(entry.steps, true), ...netTagChanges(entry.steps, false)];
+  const head = headChange(entry);
+
+  // Refuse up front if anything moved since, so the undo never overwrites newer work.
+  logStep("Checking that nothing changed since");
+  const problems: string[] = [];
+  for (const change of remoteChanges) {
+    const now = await remoteRef(git, change.remote, change.branch);
+    if (now !== change.after) {
+      problems.push(`${change.remote}/${change.branch} is at ${short(now)}, expected ${short(change.after)}`);
+    } else if (change.action === "revert" && !change.before) {
+      problems.push(`${change.remote}/${change.branch} is protected; delete it manually`);
+    } else if (change.before && !(await hasCommit(git, change.before))) {
+      problems.push(`commit ${short(change.before)} (previous ${change.remote}/${change.branch}) is not available locally`);
+    }
+    if (change.action === "revert") {
+      try {
+        const rules = await loadCommitLintRules(cwd, change.branch);
+        change.header = buildRevertCommitMessage(rules, `undo ${entry.command}`, change.branch);
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+  for (const change of localChanges) {
+    const now = await localRef(git, change.branch);
+    if (now !== change.after) problems.push(`${change.branch} is at ${short(now)}, expected ${short(change.after)}`);
+  }
+  for (const change of tagChanges) {
+    const now = change.remote ? await remoteTag(git, change.remote, change.tag) : await localTag(git, change.tag);
+    const where = change.remote ? `tag ${change.tag} on ${change.remote}` : `tag ${change.tag}`;
+    if (now !== change.after) problems.push(`${where} is at ${short(now)}, expected ${short(change.after)}`);
+  }
+  if (head && (await currentBranchOf(git)) !== head.after) {
+    problems.push(`'${head.after ?? "(detached)"}' is no longer checked out`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`cannot undo ${entry.command}; things changed since:\n${problems.map((p) => `- ${p}`).join("\n")}`);
+  }
+
+  logHeading("\nUndo plan:");
+  for (const change of remoteChanges) process.stdout.write(`  - ${describeRemoteUndo(change)}\n`);
+  for (const change of tagChanges) process.stdout.write(`  - ${describeTagUndo(change)}\n`);
+  if (head?.before) process.stdout.write(`  - checkout ${head.before}\n`);
+  for (const change of localChanges) process.stdout.write(`  - ${describeLocalUndo(change)}\n`);
+
+  if (!options.yes) {
+    if (!process.stdin.isTTY) throw new Error("undoing needs confirmation; rerun with --yes");
+    const answers = await inquirer.prompt<{ undo: boolean }>([
+      { type: "confirm", name: "undo", message: `Undo ${entry.command}?`, default: false },
+    ]);
+    if (!answers.undo) {
+      logWarning("Cancelled; nothing was changed.");
+      return;
+    }
+  }
+
+  // Remote refs first: if a lease is rejected nothing local has been touched yet.
+  for (const change of remoteChanges) await undoRemote(git, entry, change);
+  for (const change of tagChanges) await undoTag(git, change);
+  await undoLocal(git, entry);
+
+  entry.undoneAt = new Date().toISOString();
+  await writeJournal(git, journal);
+  logSuccess(`Undid ${entry.command} (${entry.startedAt})`);
+}
@@ -3,3 +3,10 @@ export { toTest } from "./core/toTest.js";
 export { toMain } from "./core/toMain.js";
 export { toDeploy } from "./core/deploy/toDeploy.js";
 export { toInit } from "./core/init/toInit.js";
+export { toLint } from "./core/toLint.js";
+export { toChangelog } from "./core/toChangelog.js";
+export { toRelease } from "./core/toRelease.js";
+export { toUndo } from "./core/toUndo.js";
+export { toBranch } from "./core/toBranch.js";
+export { toClean } from "./core/toClean.js";
+export { toStatus } from "./core/toStatus.js";
@@ -0,0 +1,51 @@
+import { type BranchNameRules } from "./config.js";
+
+export type BranchNameParts = {
+  type: string;
+  ticket?: string;
+  description: string;
+};
+
+/**
+ * 将描述转换为适合分支名的 slug（如 `Login Page!` -> `login-page`）：
+ * 去掉重音符号，转小写，非字母数字的字符替换为 `-`。
+ * @param value 描述
+ * @returns slug；没有可用字符时返回空字符串
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * 按配置的模板生成分支名（如 `{type}/{ticket}-{description}` -> `feat/PROJ-12-login-page`）。
+ * - 描述会被 slugify，并在整个分支名超过 `maxLength` 时按单词截断
+ * - 没有 ticket 时，与之相邻的多余分隔符会被去掉（如 `feat/login-page`）
+ * @param rules `cicd.config.js` 中的分支名规则
+ * @param parts 类型、ticket 和描述
+ * @returns 分支名
+ */
+export function buildBranchName(rules: BranchNameRules, parts: BranchNameParts): string {
+  const render = (description: string) =>
+    rules.pattern
+      .replace(/\{type\}/g, parts.type)
+      .replace(/\{ticket\}/g, parts.ticket?.trim() ?? "")
+      .replace(/\{description\}/g, description)
+      .replace(/([-_.])[-_.]+/g, "$1")
+      .replace(/[-_.]+\//g, "/")
+      .replace(/\/[-_.]+/g, "/")
+      .replace(/^[-_./]+|[-_./]+$/g, "");
+
+  let description = slugify(parts.description);
+  const overflow = render(description).length - rules.maxLength;
+  if (overflow > 0) {
+    const truncated = description.slice(0, Math.max(description.length - overflow, 0));
+    // Cut at the last whole word when there is one.
+    description = truncated.includes("-") ? truncated.slice(0, truncated.lastIndexOf("-")) : truncated;
+  }
+  return render(description);
+}
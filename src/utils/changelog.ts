@@ -0,0 +1,169 @@
+import { type CommitTypeOption } from "./config.js";
+import { parseCommitHeader } from "./lint.js";
+import { buildCommitUrl, buildCompareUrl, buildMrUrl, type ParsedRemote } from "./mr.js";
+
+export type ChangelogEntry = {
+  hash: string;
+  shortHash: string;
+  type: string | null;
+  scope: string;
+  subject: string;
+  breaking: boolean;
+  breakingNotes: string[];
+  mr: number | null;
+};
+
+export type ChangelogGroup = {
+  type: string | null;
+  label: string;
+  scopes: { scope: string; entries: ChangelogEntry[] }[];
+};
+
+export type ChangelogSection = {
+  version: string;
+  date: string;
+  from: string | null;
+  to: string;
+  breaking: ChangelogEntry[];
+  groups: ChangelogGroup[];
+};
+
+const OTHER_LABEL = "Other changes";
+
+/**
+ * 解析单个提交为 changelog 条目（识别 type/scope/breaking change/MR 编号）。
+ * 不符合 `<type>(<scope>): <subject>` 的提交 `type` 为 `null`。
+ * @param hash 完整提交 SHA
+ * @param message 完整提交信息
+ * @returns changelog 条目
+ */
+export function parseChangelogEntry(hash: string, message: string): ChangelogEntry {
+  const [header = "", ...rest] = message.trim().split(/\r?\n/);
+  const body = rest.join("\n");
+  const parsed = parseCommitHeader(header);
+
+  const breakingNotes = Array.from(body.matchAll(/^BREAKING[ -]CHANGE:\s*(.+)$/gm), (m) => m[1]!.trim());
+  const subject = parsed ? parsed.subject : header.trim();
+
+  // GitHub squash merges append "(#123)"; GitLab merge commits mention "See merge request group/repo!45".
+  const subjectMr = /\s*\((?:#|!)(\d+)\)$/.exec(subject);
+  const bodyMr = /See merge request \S*!(\d+)/.exec(body);
+  const mr = subjectMr ? Number(subjectMr[1]) : bodyMr ? Number(bodyMr[1]) : null;
+
+  return {
+    hash,
+    shortHash: hash.slice(0, 7),
+    type: parsed ? parsed.type : null,
+    scope: parsed ? parsed.scope : "",
+    subject: subjectMr ? subject.slice(0, subjectMr.index) : subject,
+    breaking: Boolean(parsed?.breaking) || breakingNotes.length > 0,
+    breakingNotes,
+    mr,
+  };
+}
+
+/**
+ * 获取提交类型在 changelog 中显示的标题（取 `COMMIT_TYPES`/配置中 `name` 的描述部分）。
+ * @param type 提交类型
+ * @param types 可用的提交类型列表
+ * @returns 标题文本
+ */
+export function changelogLabelForType(type: string | null, types: readonly CommitTypeOption[]): string {
+  if (!type) return OTHER_LABEL;
+  const option = types.find((t) => t.value === type);
+  if (!option) return OTHER_LABEL;
+  return option.name.replace(new RegExp(`^${type}:\\s*`), "") || type;
+}
+
+/**
+ * 将条目按 type（按类型列表顺序）和 scope 分组；未知类型归入 "Other changes"。
+ * @param entries changelog 条目
+ * @param types 可用的提交类型列表
+ * @returns 分组结果
+ */
+export function groupChangelogEntries(
+  entries: readonly ChangelogEntry[],
+  types: readonly CommitTypeOption[],
+): ChangelogGroup[] {
+  const known = new Set(types.map((t) => t.value));
+  const order = [...types.map((t) => t.value), null];
+  const groups: ChangelogGroup[] = [];
+
+  for (const type of order) {
+    const matched = entries.filter((e) => (type === null ? !e.type || !known.has(e.type) : e.type === type));
+    if (matched.length === 0) continue;
+
+    const scopes: ChangelogGroup["scopes"] = [];
+    for (const entry of matched) {
+      const group = scopes.find((s) => s.scope === entry.scope);
+      if (group) group.entries.push(entry);
+      else scopes.push({ scope: entry.scope, entries: [entry] });
+    }
+    scopes.sort((a, b) => (a.scope === "" ? -1 : b.scope === "" ? 1 : a.scope.localeCompare(b.scope)));
+    groups.push({ type, label: changelogLabelForType(type, types), scopes });
+  }
+  return groups;
+}
+
+function formatEntryLine(entry: ChangelogEntry, remote: ParsedRemote | null): string {
+  const commitUrl = remote ? buildCommitUrl(remote, entry.hash) : null;
+  const mrUrl = remote && entry.mr !== null ? buildMrUrl(remote, entry.mr) : null;
+  const refs = [
+    commitUrl ? `[${entry.shortHash}](${commitUrl})` : entry.shortHash,
+  ];
+  if (entry.mr !== null) {
+    const mrLabel = `${remote?.provider === "github" ? "#" : "!"}${entry.mr}`;
+    refs.push(mrUrl ? `[${mrLabel}](${mrUrl})` : mrLabel);
+  }
+  const prefix = entry.scope ? `**${entry.scope}:** ` : "";
+  return `- ${prefix}${entry.subject} (${refs.join(", ")})`;
+}
+
+/**
+ * 将 changelog 分段渲染为 Markdown。
+ * @param section changelog 分段
+ * @param remote 解析后的 remote 信息；用于生成提交/MR/对比链接（可为 `null`）
+ * @returns Markdown 文本（以换行结尾）
+ */
+export function renderChangelogMarkdown(section: ChangelogSection, remote: ParsedRemote | null): string {
+  const compareUrl = remote && section.from ? buildCompareUrl(remote, section.from, section.to) : null;
+  const title = compareUrl ? `[${section.version}](${compareUrl})` : section.version;
+  const lines = [`## ${title} (${section.date})`, ""];
+
+  if (section.breaking.length > 0) {
+    lines.push("### ⚠ BREAKING CHANGES", "");
+    for (const entry of section.breaking) {
+      lines.push(formatEntryLine(entry, remote));
+      for (const note of entry.breakingNotes) lines.push(`  - ${note}`);
+    }
+    lines.push("");
+  }
+
+  for (const group of section.groups) {
+    lines.push(`### ${group.label}`, "");
+    for (const scopeGroup of group.scopes) {
+      for (const entry of scopeGroup.entries) lines.push(formatEntryLine(entry, remote));
+    }
+    lines.push("");
+  }
+
+  if (section.groups.length === 0) lines.push("_No changes._", "");
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+/**
+ * 把新的 changelog 分段插入到已有 CHANGELOG 内容的最前面（保留顶部的 `# ` 标题）。
+ * @param existing 已有内容（文件不存在时为空字符串）
+ * @param section 新分段的 Markdown
+ * @returns 新的文件内容
+ */
+export function prependChangelogSection(existing: string, section: string): string {
+  const trimmed = existing.replace(/^\s+/, "");
+  if (!trimmed) return `# Changelog\n\n${section}`;
+
+  const titleMatch = /^# .*\n+/.exec(trimmed);
+  if (!titleMatch) return `${section}\n${trimmed}`;
+  const title = titleMatch[0].trimEnd();
+  const rest = trimmed.slice(titleMatch[0].length);
+  return `${title}\n\n${section}${rest ? `\n${rest}` : ""}`;
+}
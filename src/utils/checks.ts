@@ -0,0 +1,157 @@
+import { spawn } from "node:child_process";
+import { type SimpleGit } from "simple-git";
+import { loadCicdConfigBranches, loadCicdConfigChecks, type CheckCommandName, type CheckStep } from "./config.js";
+import { matchesAnyGlob } from "./glob.js";
+import { getUpstreamRef } from "./index.js";
+import { formatCheckResult, formatPrefixedLine, logHeading, logStep, logWarning } from "./log.js";
+import { isRecordingGit } from "./ops.js";
+
+export type CheckResult = {
+  name: string;
+  status: "passed" | "failed" | "skipped" | "not run";
+  durationMs: number;
+};
+
+export type RunChecksOptions = {
+  cwd: string;
+  command: CheckCommandName;
+  remote: string;
+  branch: string;
+  skip?: boolean;
+};
+
+/**
+ * 为 shell 命令参数加引号（单引号包裹）。
+ * @param value 参数
+ * @returns 可安全拼接到 shell 命令中的字符串
+ */
+function shellQuote(value: string): string {
+  return /^[\w./@%+=:,-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * 获取本次推送涉及的变更文件（已删除的文件不包含在内）：
+ * - 有 upstream：与 upstream 的差异
+ * - 否则与 `${remote}/${main}` 的差异
+ * - 都没有时返回全部已跟踪文件
+ * @param git `simple-git` 实例
+ * @param remote remote 名称
+ * @param mainBranch 主分支名
+ * @returns 文件路径列表
+ */
+export async function listChangedFiles(git: SimpleGit, remote: string, mainBranch: string): Promise<string[]> {
+  let base = await getUpstreamRef(git);
+  if (!base) {
+    const candidate = `${remote}/${mainBranch}`;
+    const exists = (await git.raw(["branch", "-r", "--list", candidate])).trim().length > 0;
+    base = exists ? candidate : null;
+  }
+
+  const output = base
+    ? await git.raw(["diff", "--name-only", "--diff-filter=ACMR", `${base}...HEAD`])
+    : await git.raw(["ls-files"]);
+  return output.split("\n").map((l) => l.trim()).filter(Boolean);
+}
+
+/**
+ * 执行单个 shell 命令，逐行输出并带上 `[name]` 前缀。
+ * @param command shell 命令
+ * @param cwd 工作目录
+ * @param prefix 输出前缀
+ * @returns 进程退出码（被信号终止时为 `null`）
+ */
+function runPrefixedCommand(command: string, cwd: string, prefix: string): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { cwd, shell: true, stdio: ["ignore", "pipe", "pipe"] });
+    const pipe = (stream: NodeJS.ReadableStream, out: NodeJS.WriteStream): void => {
+      let buffer = "";
+      stream.setEncoding("utf8");
+      stream.on("data", (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? "";
+        for (const line of lines) out.write(`${formatPrefixedLine(prefix, line)}\n`);
+      });
+      stream.on("end", () => {
+        if (buffer) out.write(`${formatPrefixedLine(prefix, buffer)}\n`);
+      });
+    };
+    pipe(child.stdout, process.stdout);
+    pipe(child.stderr, process.stderr);
+    child.on("error", reject);
+    child.on("close", (code) => resolve(code));
+  });
+}
+
+/**
+ * 按 `cicd.config.js` 中 `checks[command]` 的顺序在 push 前执行本地检查：
+ * - 任一检查失败即停止，打印汇总并抛错
+ * - `changedOnly` 的检查只针对本次推送涉及的文件（命令中的 `{files}` 会被替换，没有占位符时追加到末尾）
+ * - `skip` 为 `true` 时跳过全部检查（会输出 warning）
+ * - dry-run（记录实例）时只列出将要执行的检查
+ * @param git `simple-git` 实例
+ * @param options 执行参数
+ * @returns 每个检查的结果
+ * @throws 任一检查失败时抛错
+ */
+export async function runChecks(git: SimpleGit, options: RunChecksOptions): Promise<CheckResult[]> {
+  const steps = await loadCicdConfigChecks(options.cwd, options.command);
+  if (steps.length === 0) return [];
+  if (options.skip) {
+    logWarning(`Skipping ${steps.length} pre-push check(s) for ${options.command} (--skip-checks).`);
+    return steps.map((s) => ({ name: s.name, status: "skipped", durationMs: 0 }));
+  }
+  if (isRecordingGit(git)) {
+    logWarning(`dry-run: would run ${steps.length} pre-push check(s): ${steps.map((s) => s.name).join(", ")}`);
+    return steps.map((s) => ({ name: s.name, status: "not run", durationMs: 0 }));
+  }
+
+  logStep(`Running ${steps.length} pre-push check(s)`);
+  let changedFiles: string[] | null = null;
+  const resolveFiles = async (step: CheckStep): Promise<string[]> => {
+    if (!changedFiles) {
+      const { main } = await loadCicdConfigBranches(options.cwd);
+      changedFiles = await listChangedFiles(git, options.remote, main);
+    }
+    return step.files.length > 0 ? changedFiles.filter((f) => matchesAnyGlob(f, step.files)) : changedFiles;
+  };
+
+  const results: CheckResult[] = [];
+  let failed = false;
+  for (const step of steps) {
+    if (failed) {
+      results.push({ name: step.name, status: "not run", durationMs: 0 });
+      continue;
+    }
+
+    let command = step.run;
+    if (step.changedOnly) {
+      const files = await resolveFiles(step);
+      if (files.length === 0) {
+        results.push({ name: step.name, status: "skipped", durationMs: 0 });
+        continue;
+      }
+      const quoted = files.map(shellQuote).join(" ");
+      command = command.includes("{files}") ? command.split("{files}").join(quoted) : `${command} ${quoted}`;
+    }
+
+    logStep(`Check: ${step.name}`);
+    const startedAt = Date.now();
+    const code = await runPrefixedCommand(command, options.cwd, step.name);
+    const status = code === 0 ? "passed" : "failed";
+    results.push({ name: step.name, status, durationMs: Date.now() - startedAt });
+    if (status === "failed") failed = true;
+  }
+
+  logHeading("\nPre-push checks:");
+  for (const result of results) {
+    const duration = result.durationMs > 0 ? ` (${(result.durationMs / 1000).toFixed(1)}s)` : "";
+    process.stdout.write(`  ${formatCheckResult(result.status, `${result.name}${duration}`)}\n`);
+  }
+
+  const failedStep = results.find((r) => r.status === "failed");
+  if (failedStep) {
+    throw new Error(`pre-push check failed: ${failedStep.name}; nothing was pushed (fix it or rerun with --skip-checks)`);
+  }
+  return results;
+}
@@ -1,11 +1,125 @@
+import { access } from "node:fs/promises";
 import { join } from "node:path";
 import { pathToFileURL } from "node:url";
+import { COMMIT_TYPES } from "./constant.js";
+import { matchesBranchPattern } from "./glob.js";
 import { logWarning } from "./log.js";
+import { type HostMapping, isGitProvider, type GitProvider } from "./mr.js";
+
+export type CommitTypeOption = {
+  value: string;
+  name: string;
+};
 
 export type CicdConfig = {
-  scopes?: string[];
+  branches?: {
+    main?: string;
+    /** 一个或多个测试/环境分支（如 `["test", "uat", "pre"]`），第一个作为默认测试分支 */
+    test?: string | string[];
+  };
+  scopes?: string[] | Record<string, string[]>;
+  stage?: {
+    exclude?: string[];
+  };
+  commit?: {
+    types?: (string | { value: string; description?: string })[] | Record<string, string | false>;
+    subjectMaxLength?: number;
+    requireScope?: boolean;
+    branchTypes?: Record<string, string[]>;
+  };
+  checks?: Partial<Record<CheckCommandName, CheckConfigEntry[]>>;
+  secrets?: {
+    forbiddenFiles?: string[];
+    ignoreFiles?: string[];
+    maxBinaryKb?: number;
+    patterns?: Record<string, string>;
+    allow?: string[];
+    entropy?: boolean;
+  };
+  ticket?: {
+    pattern?: string;
+    placement?: TicketPlacement;
+    requiredBranches?: string[];
+    onMissing?: "warn" | "error";
+  };
+  merge?: {
+    strategy?: MergeStrategy;
+    branches?: Record<string, MergeStrategy>;
+  };
+  rebuild?: {
+    branches?: string[];
+  };
+  protectedBranches?: string[];
+  branchName?: {
+    pattern?: string;
+    maxLength?: number;
+  };
+  hosts?: Record<string, GitProvider | { provider: GitProvider; webUrl?: string }>;
+  mr?: {
+    token?: string;
+    apiUrl?: string;
+    reviewers?: string[];
+    labels?: string[];
+    template?: string;
+  };
+};
+
+export type MergeStrategy = "merge" | "no-ff" | "squash" | "rebase";
+
+export const MERGE_STRATEGIES: readonly MergeStrategy[] = ["merge", "no-ff", "squash", "rebase"];
+
+export type CheckCommandName = "to-self" | "to-test" | "to-main";
+
+export type CheckConfigEntry = string | { name?: string; run: string; changedOnly?: boolean; files?: string[] };
+
+export type CheckStep = {
+  name: string;
+  run: string;
+  changedOnly: boolean;
+  files: string[];
+};
+
+export type SecretRules = {
+  forbiddenFiles: string[];
+  ignoreFiles: string[];
+  maxBinaryBytes: number;
+  patterns: { name: string; regex: RegExp }[];
+  allow: RegExp[];
+  entropy: boolean;
+};
+
+export type TicketPlacement = "prefix" | "suffix" | "footer";
+
+export type TicketRules = {
+  pattern: RegExp;
+  placement: TicketPlacement;
+  requiredBranches: string[];
+  onMissing: "warn" | "error";
 };
 
+export type BranchNameRules = {
+  pattern: string;
+  maxLength: number;
+};
+
+export type MrRules = {
+  token: string | null;
+  apiUrl: string | null;
+  reviewers: string[];
+  labels: string[];
+  template: string | null;
+};
+
+export type CommitRules = {
+  types: CommitTypeOption[];
+  // null: no limit (only enforced when commit.subjectMaxLength is configured).
+  subjectMaxLength: number | null;
+  requireScope: boolean;
+  branchTypes: { pattern: string; types: string[] }[];
+};
+
+const configCache = new Map<string, Promise<CicdConfig>>();
+
 function normalizeScope(value: unknown): string | null {
   if (typeof value !== "string") return null;
   const trimmed = value.trim();
@@ -15,6 +129,60 @@ function normalizeScope(value: unknown): string | null {
   return trimmed;
 }
 
+function normalizeCommitTypeValue(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return /^[a-z]+$/.test(trimmed) ? trimmed : null;
+}
+
+function toCommitTypeOption(value: string, description?: string): CommitTypeOption {
+  const builtin = COMMIT_TYPES.find((t) => t.value === value);
+  if (description?.trim()) return { value, name: `${value}: ${description.trim()}` };
+  return { value, name: builtin ? builtin.name : value };
+}
+
+function normalizeCommitTypes(value: NonNullable<CicdConfig["commit"]>["types"]): CommitTypeOption[] {
+  const defaults: CommitTypeOption[] = COMMIT_TYPES.map((t) => ({ value: t.value, name: t.name }));
+  if (!value || typeof value !== "object") return defaults;
+
+  // Array form replaces the built-in list entirely.
+  if (Array.isArray(value)) {
+    const types: CommitTypeOption[] = [];
+    for (const entry of value) {
+      const raw = typeof entry === "string" ? entry : entry?.value;
+      const type = normalizeCommitTypeValue(raw);
+      if (!type || types.some((t) => t.value === type)) continue;
+      types.push(toCommitTypeOption(type, typeof entry === "string" ? undefined : entry.description));
+    }
+    return types.length > 0 ? types : defaults;
+  }
+
+  // Object form patches the built-in list: a string sets the description, `false` removes the type.
+  const types = [...defaults];
+  for (const [key, description] of Object.entries(value)) {
+    const type = normalizeCommitTypeValue(key);
+    if (!type) continue;
+    const index = types.findIndex((t) => t.value === type);
+    if (description === false) {
+      if (index !== -1) types.splice(index, 1);
+      continue;
+    }
+    const option = toCommitTypeOption(type, typeof description === "string" ? description : undefined);
+    if (index === -1) types.push(option);
+    else types[index] = option;
+  }
+  return types.length > 0 ? types : defaults;
+}
+
+function normalizeStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const normalized = value
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
 function getDefaultCicdConfigPath(cwd: string): string {
   return join(cwd, "cicd.config.js");
 }
@@ -25,25 +193,262 @@ async function importCicdConfig(configPath: string): Promise<unknown> {
   return (mod as { default?: unknown }).default ?? mod;
 }
 
-export async function loadCicdConfigScopes(cwd: string): Promise<string[] | null> {
+async function readCicdConfig(cwd: string): Promise<CicdConfig> {
   const configPath = getDefaultCicdConfigPath(cwd);
   try {
+    await access(configPath);
     const imported = await importCicdConfig(configPath);
-    const parsed = imported as CicdConfig;
-    const scopes = Array.isArray(parsed.scopes) ? parsed.scopes : null;
-    if (!scopes) return null;
-
-    const normalized = scopes
-      .map((s) => normalizeScope(s))
-      .filter((s): s is string => Boolean(s));
-    const unique = Array.from(new Set(normalized));
-    return unique.length > 0 ? unique : null;
+    if (!imported || typeof imported !== "object") return {};
+    return imported as CicdConfig;
   } catch (error) {
     if (error instanceof Error && "code" in error) {
       const code = (error as Error & { code?: string }).code;
-      if (code === "ENOENT") return null;
+      if (code === "ENOENT") return {};
+    }
+    logWarning(`Failed to read cicd config from ${configPath}; ignoring.`);
+    return {};
+  }
+}
+
+export async function loadCicdConfig(cwd: string): Promise<CicdConfig> {
+  let cached = configCache.get(cwd);
+  if (!cached) {
+    cached = readCicdConfig(cwd);
+    configCache.set(cwd, cached);
+  }
+  return await cached;
+}
+
+export async function loadCicdConfigBranches(cwd: string): Promise<{ main: string; test: string }> {
+  const branches = (await loadCicdConfig(cwd)).branches ?? {};
+  const main = typeof branches.main === "string" && branches.main.trim() ? branches.main.trim() : "main";
+  const [test] = await loadCicdConfigTestBranches(cwd);
+  return { main, test: test! };
+}
+
+export async function loadCicdConfigTestBranches(cwd: string): Promise<string[]> {
+  const test = (await loadCicdConfig(cwd)).branches?.test;
+  const list = normalizeStringList(typeof test === "string" ? [test] : test);
+  return list.length > 0 ? list : ["test"];
+}
+
+export async function loadCicdConfigScopes(cwd: string): Promise<string[] | null> {
+  const parsed = await loadCicdConfig(cwd);
+  const scopes = Array.isArray(parsed.scopes)
+    ? parsed.scopes
+    : parsed.scopes && typeof parsed.scopes === "object"
+      ? Object.keys(parsed.scopes)
+      : null;
+  if (!scopes) return null;
+
+  const normalized = scopes
+    .map((s) => normalizeScope(s))
+    .filter((s): s is string => Boolean(s));
+  const unique = Array.from(new Set(normalized));
+  return unique.length > 0 ? unique : null;
+}
+
+export async function loadCicdConfigScopeGlobs(cwd: string): Promise<Record<string, string[]>> {
+  const parsed = await loadCicdConfig(cwd);
+  if (!parsed.scopes || typeof parsed.scopes !== "object" || Array.isArray(parsed.scopes)) return {};
+
+  const globs: Record<string, string[]> = {};
+  for (const [key, patterns] of Object.entries(parsed.scopes)) {
+    const scope = normalizeScope(key);
+    const list = normalizeStringList(patterns);
+    if (scope && list.length > 0) globs[scope] = list;
+  }
+  return globs;
+}
+
+export async function loadCicdConfigStageExcludes(cwd: string): Promise<string[]> {
+  const parsed = await loadCicdConfig(cwd);
+  return normalizeStringList(parsed.stage?.exclude);
+}
+
+export async function loadCicdConfigCommitRules(cwd: string): Promise<CommitRules> {
+  const commit = (await loadCicdConfig(cwd)).commit ?? {};
+  const types = normalizeCommitTypes(commit.types);
+  const maxLength = Number(commit.subjectMaxLength);
+  const branchTypes = Object.entries(commit.branchTypes ?? {})
+    .map(([pattern, allowed]) => ({
+      pattern: pattern.trim(),
+      types: normalizeStringList(allowed).filter((t) => types.some((option) => option.value === t)),
+    }))
+    .filter((entry) => entry.pattern);
+
+  return {
+    types,
+    subjectMaxLength: Number.isInteger(maxLength) && maxLength > 0 ? maxLength : null,
+    requireScope: commit.requireScope === true,
+    branchTypes,
+  };
+}
+
+export async function loadCicdConfigTicketRules(cwd: string): Promise<TicketRules | null> {
+  const ticket = (await loadCicdConfig(cwd)).ticket;
+  if (!ticket || typeof ticket !== "object") return null;
+
+  let pattern = /[A-Z][A-Z0-9]+-\d+/;
+  if (typeof ticket.pattern === "string" && ticket.pattern.trim()) {
+    try {
+      pattern = new RegExp(ticket.pattern.trim());
+    } catch {
+      logWarning(`Invalid ticket.pattern in cicd.config.js: ${ticket.pattern}; using default.`);
+    }
+  }
+  const placement: TicketPlacement =
+    ticket.placement === "suffix" || ticket.placement === "footer" ? ticket.placement : "prefix";
+
+  return {
+    pattern,
+    placement,
+    requiredBranches: normalizeStringList(ticket.requiredBranches),
+    onMissing: ticket.onMissing === "error" ? "error" : "warn",
+  };
+}
+
+export async function loadCicdConfigChecks(cwd: string, command: CheckCommandName): Promise<CheckStep[]> {
+  const checks = (await loadCicdConfig(cwd)).checks;
+  const entries = checks && typeof checks === "object" ? checks[command] : undefined;
+  if (!Array.isArray(entries)) return [];
+
+  const steps: CheckStep[] = [];
+  for (const entry of entries) {
+    const run = typeof entry === "string" ? entry.trim() : typeof entry?.run === "string" ? entry.run.trim() : "";
+    if (!run) continue;
+    const options: Exclude<CheckConfigEntry, string> = typeof entry === "string" ? { run } : entry;
+    steps.push({
+      name: typeof options.name === "string" && options.name.trim() ? options.name.trim() : run,
+      run,
+      changedOnly: options.changedOnly === true,
+      files: normalizeStringList(options.files),
+    });
+  }
+  return steps;
+}
+
+const DEFAULT_SECRET_PATTERNS: { name: string; regex: RegExp }[] = [
+  { name: "aws-access-key", regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: "aws-secret-key", regex: /aws.{0,20}?(?:secret|key).{0,5}?[:=]\s*["']?[A-Za-z0-9/+=]{40}\b/i },
+  { name: "private-key", regex: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----/ },
+  { name: "jwt", regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+  { name: "github-token", regex: /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}\b|\bgithub_pat_[A-Za-z0-9_]{40,}/ },
+  { name: "gitlab-token", regex: /\bglpat-[A-Za-z0-9_-]{20}\b/ },
+  { name: "slack-token", regex: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+];
+
+function toRegExpList(values: string[], field: string): RegExp[] {
+  const list: RegExp[] = [];
+  for (const value of values) {
+    try {
+      list.push(new RegExp(value));
+    } catch {
+      logWarning(`Invalid regex in ${field} of cicd.config.js: ${value}; ignoring.`);
+    }
+  }
+  return list;
+}
+
+// Example env files are committed on purpose, so they are carved out of `.env.*`.
+const DEFAULT_FORBIDDEN_FILES = [
+  ".env",
+  ".env.*",
+  "!.env.example",
+  "!.env.sample",
+  "!.env.template",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "id_rsa",
+  "id_ed25519",
+];
+
+export async function loadCicdConfigSecretRules(cwd: string): Promise<SecretRules> {
+  const secrets = (await loadCicdConfig(cwd)).secrets ?? {};
+  const forbiddenFiles = normalizeStringList(secrets.forbiddenFiles);
+  const ignoreFiles = normalizeStringList(secrets.ignoreFiles);
+  const maxBinaryKb = Number(secrets.maxBinaryKb);
+
+  const patterns = [...DEFAULT_SECRET_PATTERNS];
+  for (const [name, source] of Object.entries(secrets.patterns ?? {})) {
+    const [regex] = toRegExpList([String(source)], `secrets.patterns.${name}`);
+    if (regex) patterns.push({ name, regex });
+  }
+
+  return {
+    forbiddenFiles: forbiddenFiles.length > 0 ? forbiddenFiles : DEFAULT_FORBIDDEN_FILES,
+    ignoreFiles: ignoreFiles.length > 0 ? ignoreFiles : ["pnpm-lock.yaml", "package-lock.json", "yarn.lock", "*.lock"],
+    maxBinaryBytes: (Number.isFinite(maxBinaryKb) && maxBinaryKb > 0 ? maxBinaryKb : 1024) * 1024,
+    patterns,
+    allow: toRegExpList(normalizeStringList(secrets.allow), "secrets.allow"),
+    entropy: secrets.entropy !== false,
+  };
+}
+
+export function isMergeStrategy(value: unknown): value is MergeStrategy {
+  return typeof value === "string" && (MERGE_STRATEGIES as readonly string[]).includes(value);
+}
+
+export async function loadCicdConfigMergeStrategy(cwd: string, targetBranch: string): Promise<MergeStrategy> {
+  const merge = (await loadCicdConfig(cwd)).merge ?? {};
+  // Per-branch entries are branch patterns (like commit.branchTypes); the first match wins.
+  for (const [pattern, strategy] of Object.entries(merge.branches ?? {})) {
+    if (!matchesBranchPattern(targetBranch, pattern.trim())) continue;
+    if (isMergeStrategy(strategy)) return strategy;
+    logWarning(`Invalid merge strategy for '${pattern}' in cicd.config.js: ${String(strategy)}; ignoring.`);
+  }
+  if (merge.strategy === undefined) return "merge";
+  if (isMergeStrategy(merge.strategy)) return merge.strategy;
+  logWarning(`Invalid merge.strategy in cicd.config.js: ${String(merge.strategy)}; using 'merge'.`);
+  return "merge";
+}
+
+export async function loadCicdConfigRebuildBranches(cwd: string): Promise<string[]> {
+  return normalizeStringList((await loadCicdConfig(cwd)).rebuild?.branches);
+}
+
+export async function loadCicdConfigProtectedBranches(cwd: string): Promise<string[]> {
+  return normalizeStringList((await loadCicdConfig(cwd)).protectedBranches);
+}
+
+const DEFAULT_BRANCH_NAME_PATTERN = "{type}/{ticket}-{description}";
+
+export async function loadCicdConfigBranchNameRules(cwd: string): Promise<BranchNameRules> {
+  const branchName = (await loadCicdConfig(cwd)).branchName ?? {};
+  let pattern = DEFAULT_BRANCH_NAME_PATTERN;
+  if (typeof branchName.pattern === "string" && branchName.pattern.trim()) {
+    if (branchName.pattern.includes("{description}")) pattern = branchName.pattern.trim();
+    else logWarning("branchName.pattern in cicd.config.js must contain {description}; using default.");
+  }
+  const maxLength = Number(branchName.maxLength);
+  return { pattern, maxLength: Number.isInteger(maxLength) && maxLength > 0 ? maxLength : 60 };
+}
+
+export async function loadCicdConfigMrRules(cwd: string): Promise<MrRules> {
+  const mr = (await loadCicdConfig(cwd)).mr ?? {};
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  return {
+    token: text(mr.token),
+    apiUrl: text(mr.apiUrl),
+    reviewers: normalizeStringList(mr.reviewers),
+    labels: normalizeStringList(mr.labels),
+    template: text(mr.template),
+  };
+}
+
+export async function loadCicdConfigHosts(cwd: string): Promise<Record<string, HostMapping>> {
+  const hosts = (await loadCicdConfig(cwd)).hosts;
+  if (!hosts || typeof hosts !== "object") return {};
+  const mappings: Record<string, HostMapping> = {};
+  for (const [host, entry] of Object.entries(hosts)) {
+    const provider = typeof entry === "string" ? entry : entry?.provider;
+    if (!isGitProvider(provider)) {
+      logWarning(`Invalid provider for '${host}' in hosts of cicd.config.js: ${String(provider)}; ignoring.`);
+      continue;
     }
-    logWarning(`Failed to read cicd config scopes from ${configPath}; ignoring.`);
-    return null;
+    const webUrl = typeof entry === "object" && typeof entry.webUrl === "string" ? entry.webUrl.trim() : "";
+    mappings[host.trim().toLowerCase()] = { provider, webUrl: webUrl || null };
   }
+  return mappings;
 }
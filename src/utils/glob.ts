@@ -0,0 +1,70 @@
+/**
+ * 将简化版 glob 转换为正则（仅支持本项目需要的语法）：
+ * - `**` 匹配任意层级目录（包括空）
+ * - `*` 匹配除 `/` 以外的任意字符
+ * - `?` 匹配除 `/` 以外的单个字符
+ * @param pattern glob 字符串
+ * @returns 对应的正则表达式
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        const atSegmentEnd = pattern[i + 2] === "/";
+        source += atSegmentEnd ? "(?:.*/)?" : ".*";
+        i += atSegmentEnd ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 判断路径是否匹配 glob。
+ * 与 `.gitignore` 类似：不含 `/` 的 pattern 会匹配任意目录下的同名文件（按 basename 匹配）。
+ * @param path 相对仓库根目录的路径（使用 `/` 分隔）
+ * @param pattern glob 字符串
+ * @returns 是否匹配
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const normalizedPath = path.replace(/\\/g, "/").replace(/^\.\//, "");
+  const normalizedPattern = pattern.trim().replace(/^\.\//, "").replace(/\/$/, "/**");
+  if (!normalizedPattern) return false;
+
+  if (!normalizedPattern.includes("/")) {
+    const base = normalizedPath.slice(normalizedPath.lastIndexOf("/") + 1);
+    return globToRegExp(normalizedPattern).test(base);
+  }
+  return globToRegExp(normalizedPattern.replace(/^\//, "")).test(normalizedPath);
+}
+
+/**
+ * 判断路径是否匹配任意一个 glob。
+ * @param path 相对仓库根目录的路径
+ * @param patterns glob 列表
+ * @returns 是否匹配
+ */
+export function matchesAnyGlob(path: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(path, pattern));
+}
+
+/**
+ * 判断分支名是否匹配分支 pattern（整名匹配，`*` 不跨越 `/`）。
+ * 例如：`release/*` 匹配 `release/1.0`，`main` 只匹配 `main`。
+ * @param branch 分支名
+ * @param pattern 分支名或 glob
+ * @returns 是否匹配
+ */
+export function matchesBranchPattern(branch: string, pattern: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return false;
+  return globToRegExp(trimmed).test(branch);
+}
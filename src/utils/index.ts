@@ -1,8 +1,24 @@
-import { COMMIT_TYPES, type CommitType } from "./constant.js";
+import { COMMIT_TYPES } from "./constant.js";
 import inquirer from "inquirer";
 import { type SimpleGit } from "simple-git";
-import { loadCicdConfigScopes } from "./config.js";
+import {
+  loadCicdConfigCommitRules,
+  loadCicdConfigScopeGlobs,
+  loadCicdConfigScopes,
+  loadCicdConfigSecretRules,
+  loadCicdConfigStageExcludes,
+  loadCicdConfigTicketRules,
+  type CommitRules,
+  type CommitTypeOption,
+  type MergeStrategy,
+} from "./config.js";
+import { matchesAnyGlob, matchesBranchPattern } from "./glob.js";
+import { type CommitLintRules, lintCommitMessage } from "./lint.js";
+import { buildCommitMessage } from "./message.js";
 import { formatGitStatusLine, logHeading, logStep, logWarning } from "./log.js";
+import { printSecretFindings, scanStagedChanges } from "./secrets.js";
+import { promptStageSelection, stageAllExcept } from "./stage.js";
+import { applyTicketToHeader, resolveBranchTicket, ticketSubjectLength } from "./ticket.js";
 
 /**
  * `simple-git` 的文件状态结构（本项目只用到其中几个字段）。
@@ -26,21 +42,141 @@ export function formatStatusLine(file: StatusFile): string {
 }
 
 /**
- * 判断提交类型是否为预置的 Conventional Commit type。
+ * 判断提交类型是否在允许的类型列表内。
  * @param value 待校验的类型字符串
+ * @param types 允许的类型列表（默认为预置的 `COMMIT_TYPES`）
  * @returns 是否为合法的提交类型
  */
-export function isRecognizedCommitType(value: string | undefined): value is CommitType {
+export function isRecognizedCommitType(
+  value: string | undefined,
+  types: readonly CommitTypeOption[] = COMMIT_TYPES,
+): value is string {
   if (!value) return false;
-  return (COMMIT_TYPES as readonly { value: string }[]).some((t) => t.value === value);
+  return types.some((t) => t.value === value);
 }
 
 /**
  * 获取允许的提交类型列表（逗号分隔），用于错误提示。
+ * @param types 允许的类型列表（默认为预置的 `COMMIT_TYPES`）
  * @returns 形如 `"feat, fix, docs, ..."` 的字符串
  */
-export function allowedCommitTypesText(): string {
-  return COMMIT_TYPES.map((t) => t.value).join(", ");
+export function allowedCommitTypesText(types: readonly CommitTypeOption[] = COMMIT_TYPES): string {
+  return types.map((t) => t.value).join(", ");
+}
+
+/**
+ * 根据 `commit.branchTypes` 获取当前分支允许使用的提交类型。
+ * 按配置顺序取第一个匹配的分支 pattern；没有匹配时允许全部类型。
+ * @param rules 已加载的提交规则
+ * @param branch 当前分支名
+ * @returns 允许的类型列表
+ */
+export function commitTypesForBranch(rules: CommitRules, branch: string | null): CommitTypeOption[] {
+  if (!branch) return rules.types;
+  const entry = rules.branchTypes.find((e) => matchesBranchPattern(branch, e.pattern));
+  if (!entry) return rules.types;
+  return rules.types.filter((t) => entry.types.includes(t.value));
+}
+
+/**
+ * 加载某个分支上的提交校验规则（与 `commitIfDirty`、`to-lint` 使用的规则一致）。
+ * @param cwd git 仓库工作目录
+ * @param branch 提交所在的分支；`null` 表示不按分支限制类型
+ * @returns 校验规则
+ */
+export async function loadCommitLintRules(cwd: string, branch: string | null): Promise<CommitLintRules> {
+  const rules = await loadCicdConfigCommitRules(cwd);
+  return {
+    types: commitTypesForBranch(rules, branch).map((t) => t.value),
+    scopes: await loadCicdConfigScopes(cwd),
+    subjectMaxLength: rules.subjectMaxLength,
+    requireScope: rules.requireScope,
+  };
+}
+
+// Builds the header of a commit the tool makes itself on a target branch, and checks it against the same rules
+// the commit-msg hook applies there, so a rule mismatch is reported up front instead of as a failed git command.
+function buildGeneratedHeader(
+  rules: CommitLintRules,
+  preferred: string,
+  targetBranch: string,
+  subject: (maxLength: number | null) => string,
+  preferredScope: string | null = null,
+): string {
+  const type = rules.types.includes(preferred) ? preferred : rules.types[0];
+  if (!type) {
+    throw new Error(`no commit types are allowed on branch '${targetBranch}'; check commit.branchTypes in cicd.config.js`);
+  }
+  // A preferred scope is used whenever it is allowed. Otherwise only name a scope when one is required, and only
+  // the target branch when it is an allowed scope.
+  const allowed = (name: string): boolean => !rules.scopes || rules.scopes.includes(name);
+  const scope =
+    preferredScope && allowed(preferredScope)
+      ? preferredScope
+      : rules.requireScope && allowed(targetBranch)
+        ? targetBranch
+        : "";
+  const header = `${type}${scope ? `(${scope})` : ""}: ${subject(rules.subjectMaxLength)}`;
+  const problems = lintCommitMessage(header, rules);
+  if (problems.length > 0) {
+    throw new Error(
+      `generated commit message '${header}' breaks the commit rules for '${targetBranch}' (${problems.join("; ")}); ` +
+        "check commit and scopes in cicd.config.js",
+    );
+  }
+  return header;
+}
+
+/**
+ * 生成合并到目标分支时使用的提交信息：`merge: <source> -> <target>`。
+ * 类型优先使用 `merge`（需在目标分支允许的类型内），否则使用第一个允许的类型；
+ * 只有 `commit.requireScope` 时才以目标分支为 scope；subject 受长度限制。生成后按目标分支的规则校验。
+ * @param rules 目标分支上的提交校验规则（`loadCommitLintRules`）
+ * @param sourceBranch 源分支名
+ * @param targetBranch 目标分支名
+ * @returns 提交信息首行
+ * @throws 目标分支不允许任何提交类型，或生成的提交信息不符合规则时抛错
+ */
+export function buildMergeCommitMessage(rules: CommitLintRules, sourceBranch: string, targetBranch: string): string {
+  return buildGeneratedHeader(rules, "merge", targetBranch, (max) => {
+    const full = `${sourceBranch} -> ${targetBranch}`;
+    return max === null || full.length <= max ? full : sourceBranch.slice(0, max);
+  });
+}
+
+/**
+ * 生成从目标分支撤回某个分支时使用的提交信息首行：`revert: <branch>`。
+ * 类型优先使用 `revert`，scope、长度限制和校验同 `buildMergeCommitMessage`。
+ * @param rules 目标分支上的提交校验规则（`loadCommitLintRules`）
+ * @param branch 被撤回的分支名
+ * @param targetBranch 目标分支名
+ * @returns 提交信息首行
+ * @throws 目标分支不允许任何提交类型，或生成的提交信息不符合规则时抛错
+ */
+export function buildRevertCommitMessage(rules: CommitLintRules, branch: string, targetBranch: string): string {
+  return buildGeneratedHeader(rules, "revert", targetBranch, (max) => branch.slice(0, max ?? undefined));
+}
+
+/**
+ * 生成发布提交的提交信息首行：`chore(release): <tag>`。
+ * 类型优先使用 `chore`（需在该分支允许的类型内），否则使用第一个允许的、不会触发版本升级（feat/fix/perf 以外）的类型；
+ * `release` 不在 `scopes` 列表内时不使用 scope（`commit.requireScope` 时改用分支名）。生成后按该分支的规则校验。
+ * @param rules 发布分支上的提交校验规则（`loadCommitLintRules`）
+ * @param tag 发布的 tag（如 `v1.2.0`）
+ * @param branch 发布分支名
+ * @returns 提交信息首行
+ * @throws 该分支只允许 feat/fix/perf 类型，或生成的提交信息不符合规则时抛错
+ */
+export function buildReleaseCommitMessage(rules: CommitLintRules, tag: string, branch: string): string {
+  // feat/fix/perf would make the release commit count towards the next release.
+  const type = rules.types.includes("chore") ? "chore" : rules.types.find((t) => !["feat", "fix", "perf"].includes(t));
+  if (!type) {
+    throw new Error(
+      `no commit type for the release commit is allowed on '${branch}' (only feat/fix/perf); ` +
+        "check commit in cicd.config.js",
+    );
+  }
+  return buildGeneratedHeader(rules, type, branch, () => tag, "release");
 }
 
 /**
@@ -68,15 +204,16 @@ export function getRemoteFromUpstream(upstream: string): string | null {
 
 /**
  * 交互式选择提交类型（prefix）。
+ * @param types 可选的类型列表（默认为预置的 `COMMIT_TYPES`）
  * @returns 选中的提交类型
  */
-export async function promptCommitType(): Promise<CommitType> {
-  const answers = await inquirer.prompt<{ type: CommitType }>([
+export async function promptCommitType(types: readonly CommitTypeOption[] = COMMIT_TYPES): Promise<string> {
+  const answers = await inquirer.prompt<{ type: string }>([
     {
       type: "list",
       name: "type",
       message: "Select commit type (prefix):",
-      choices: COMMIT_TYPES.map((t) => ({ name: t.name, value: t.value })),
+      choices: types.map((t) => ({ name: t.name, value: t.value })),
     },
   ]);
   return answers.type;
@@ -84,9 +221,10 @@ export async function promptCommitType(): Promise<CommitType> {
 
 /**
  * 交互式输入提交说明（不包含 type 前缀）。
+ * @param maxLength subject 最大字符数（`null` 不限制）
  * @returns 用户输入的 subject（已 trim）
  */
-export async function promptCommitSubject(): Promise<string> {
+export async function promptCommitSubject(maxLength: number | null = null): Promise<string> {
   const answers = await inquirer.prompt<{ subject: string }>([
     {
       type: "input",
@@ -98,6 +236,7 @@ export async function promptCommitSubject(): Promise<string> {
         if (hasConventionalPrefix(trimmed)) {
           return "Please enter subject only (no prefix like 'feat:' or 'feat(scope):')";
         }
+        if (maxLength !== null && [...trimmed].length > maxLength) return `Subject should not exceed ${maxLength} characters`;
         return true;
       },
     },
@@ -106,24 +245,27 @@ export async function promptCommitSubject(): Promise<string> {
 }
 
 /**
- * 交互式输入/选择提交 scope（可为空）。
+ * 交互式输入/选择提交 scope。
  * - 若 `cicd.config.js` 提供 `scopes: string[]`，则以列表方式选择
- * - 否则让用户自行输入（可留空）
+ * - 否则让用户自行输入
  * @param cwd git 仓库工作目录
- * @returns scope（trim 后；允许返回空字符串）
+ * @param required scope 是否必填（`commit.requireScope`）；必填时不提供 `(none)` 选项
+ * @param suggested 预选的 scope（通常根据 staged 文件路径推断）
+ * @returns scope（trim 后；非必填时允许返回空字符串）
  */
-export async function promptCommitScope(cwd: string): Promise<string> {
+export async function promptCommitScope(cwd: string, required = false, suggested = ""): Promise<string> {
   const scopes = await loadCicdConfigScopes(cwd);
+  const label = required ? "required" : "optional";
   if (scopes && scopes.length > 0) {
     const answers = await inquirer.prompt<{ scope: string }>([
       {
         type: "list",
         name: "scope",
-        message: "Select commit scope (optional):",
-        default: "",
+        message: `Select commit scope (${label}):`,
+        default: scopes.includes(suggested) ? suggested : required ? scopes[0] : "",
         choices: [
           ...scopes.map((s) => ({ name: s, value: s })),
-          { name: "(none)", value: "" },
+          ...(required ? [] : [{ name: "(none)", value: "" }]),
         ],
       },
     ]);
@@ -135,10 +277,11 @@ export async function promptCommitScope(cwd: string): Promise<string> {
     {
       type: "input",
       name: "scope",
-      message: "Enter commit scope (optional):",
+      message: `Enter commit scope (${label}):`,
+      default: suggested || undefined,
       validate: (value: string) => {
         const trimmed = value.trim();
-        if (!trimmed) return true;
+        if (!trimmed) return required ? "Scope is required" : true;
         if (/\s/.test(trimmed)) return "Scope should not contain spaces";
         if (/[()]/.test(trimmed)) return "Scope should not include parentheses";
         return true;
@@ -148,6 +291,179 @@ export async function promptCommitScope(cwd: string): Promise<string> {
   return answers.scope.trim();
 }
 
+/**
+ * 一次提交对应的 scope 以及要包含的路径（`null` 表示全部 staged 变更）。
+ */
+export type ScopedCommit = {
+  scope: string;
+  paths: string[] | null;
+};
+
+/**
+ * 根据 scope -> glob 映射将文件按 scope 分组（一个文件只归入配置中第一个匹配的 scope）。
+ * @param paths 文件路径列表（相对仓库根目录）
+ * @param scopeGlobs `cicd.config.js` 中的 scope -> glob 映射
+ * @returns 按 scope 分组的文件，以及未匹配任何 scope 的文件
+ */
+export function groupPathsByScope(
+  paths: readonly string[],
+  scopeGlobs: Record<string, string[]>,
+): { scopes: { scope: string; paths: string[] }[]; unmatched: string[] } {
+  const scopes: { scope: string; paths: string[] }[] = [];
+  const unmatched: string[] = [];
+  for (const path of paths) {
+    const scope = Object.keys(scopeGlobs).find((s) => matchesAnyGlob(path, scopeGlobs[s]!));
+    if (!scope) {
+      unmatched.push(path);
+      continue;
+    }
+    const group = scopes.find((g) => g.scope === scope);
+    if (group) group.paths.push(path);
+    else scopes.push({ scope, paths: [path] });
+  }
+  return { scopes, unmatched };
+}
+
+/**
+ * 根据 staged 文件推断 scope 并交互式确认：
+ * - 只命中一个 scope 时预选该 scope
+ * - 命中多个 scope 时给出 warning，并询问是否按 scope 拆分为多次提交
+ * @param cwd git 仓库工作目录
+ * @param stagedPaths staged 文件路径
+ * @param required scope 是否必填
+ * @returns 计划的提交列表（不拆分时只有一项）
+ */
+export async function promptCommitScopes(
+  cwd: string,
+  stagedPaths: readonly string[],
+  required = false,
+): Promise<ScopedCommit[]> {
+  const { scopes, unmatched } = groupPathsByScope(stagedPaths, await loadCicdConfigScopeGlobs(cwd));
+
+  if (scopes.length > 1) {
+    logWarning(`Staged files span ${scopes.length} scopes:`);
+    for (const group of scopes) process.stdout.write(`  ${group.scope}: ${group.paths.join(", ")}\n`);
+    if (unmatched.length > 0) process.stdout.write(`  (no scope): ${unmatched.join(", ")}\n`);
+
+    const answers = await inquirer.prompt<{ split: boolean }>([
+      { type: "confirm", name: "split", message: "Split into one commit per scope?", default: true },
+    ]);
+    if (answers.split) {
+      const commits: ScopedCommit[] = scopes.map((g) => ({ scope: g.scope, paths: g.paths }));
+      if (unmatched.length > 0) {
+        logStep("Choose a scope for files outside the configured scopes");
+        const scope = await promptCommitScope(cwd, required);
+        const existing = commits.find((c) => c.scope === scope);
+        if (existing) existing.paths!.push(...unmatched);
+        else commits.push({ scope, paths: unmatched });
+      }
+      return commits;
+    }
+  }
+
+  const suggested = scopes[0]?.scope ?? "";
+  if (suggested) logStep(`Suggested scope from staged files: ${suggested}`);
+  return [{ scope: await promptCommitScope(cwd, required, suggested), paths: null }];
+}
+
+/**
+ * 提交信息的附加部分（body / breaking change / issue 引用）。
+ */
+export type CommitDetails = {
+  body?: string;
+  breaking?: string;
+  issues?: string[];
+};
+
+/**
+ * `commitIfDirty` 的参数；非交互模式下可通过这些参数生成完整的 Conventional Commit。
+ */
+export type CommitOptions = {
+  commitMessage?: string;
+  commitType?: string;
+  commitBody?: string;
+  /** `true` 表示 breaking change 且使用 subject 作为说明；字符串则作为 `BREAKING CHANGE:` 的说明 */
+  breaking?: boolean | string;
+  issues?: string[];
+  cwd?: string;
+};
+
+/**
+ * 多行输入：优先打开 `$VISUAL`/`$EDITOR`；未设置编辑器时逐行输入，空行结束。
+ * @param message 提示文本
+ * @returns 输入内容（已 trim）
+ */
+export async function promptMultilineInput(message: string): Promise<string> {
+  if (process.env.VISUAL || process.env.EDITOR) {
+    const answers = await inquirer.prompt<{ text: string }>([
+      { type: "editor", name: "text", message, waitForUserInput: false },
+    ]);
+    return answers.text.trim();
+  }
+
+  const lines: string[] = [];
+  for (;;) {
+    const answers = await inquirer.prompt<{ line: string }>([
+      {
+        type: "input",
+        name: "line",
+        message: lines.length === 0 ? `${message} (empty line to finish)` : "...",
+      },
+    ]);
+    if (!answers.line.trim()) break;
+    lines.push(answers.line);
+  }
+  return lines.join("\n").trim();
+}
+
+/**
+ * 交互式补充提交信息的 body、breaking change 以及 issue 引用（均可跳过）。
+ * @param subject 提交 subject（作为 breaking change 说明的默认值）
+ * @returns 用户填写的附加内容
+ */
+export async function promptCommitDetails(subject: string): Promise<CommitDetails> {
+  const answers = await inquirer.prompt<{ extras: ("body" | "breaking" | "issues")[] }>([
+    {
+      type: "checkbox",
+      name: "extras",
+      message: "Add more details? (optional)",
+      choices: [
+        { name: "Body (longer description)", value: "body" },
+        { name: "Breaking change", value: "breaking" },
+        { name: "Issue references (Closes #123, Refs PROJ-42)", value: "issues" },
+      ],
+    },
+  ]);
+
+  const details: CommitDetails = {};
+  if (answers.extras.includes("body")) {
+    details.body = await promptMultilineInput("Enter commit body:");
+  }
+  if (answers.extras.includes("breaking")) {
+    const breaking = await inquirer.prompt<{ description: string }>([
+      {
+        type: "input",
+        name: "description",
+        message: "Describe the breaking change:",
+        default: subject,
+        validate: (value: string) => (value.trim() ? true : "Description cannot be empty"),
+      },
+    ]);
+    details.breaking = breaking.description.trim();
+  }
+  if (answers.extras.includes("issues")) {
+    const issues = await inquirer.prompt<{ refs: string }>([
+      {
+        type: "input",
+        name: "refs",
+        message: "Issue references (comma separated; bare IDs become 'Refs <id>'):",
+      },
+    ]);
+    details.issues = [issues.refs];
+  }
+  return details;
+}
+
 /**
  * 获取当前分支的 upstream 引用（如 `origin/main`）。
  * @param git `simple-git` 实例
@@ -207,19 +523,126 @@ export async function remoteBranchExists(git: SimpleGit, remote: string, branch:
 }
 
 /**
- * 若工作区有变更，则自动 `git add -A` 并提交：
- * - 交互模式：提示输入提交信息/选择 type
+ * 获取某个 ref 之前最近的 tag（不包含 ref 自身指向的 tag）。
+ * @param git `simple-git` 实例
+ * @param ref 起点 ref（默认 `HEAD`）
+ * @returns tag 名；没有 tag 时返回 `null`
+ */
+export async function findPreviousTag(git: SimpleGit, ref = "HEAD"): Promise<string | null> {
+  try {
+    const pointsAt = (await git.raw(["tag", "--points-at", ref])).trim();
+    const base = pointsAt ? `${ref}^` : ref;
+    const tag = (await git.raw(["describe", "--tags", "--abbrev=0", base])).trim();
+    return tag || null;
+  } catch {
+    return null;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 生成 `to-test` 合并某个分支时可能使用的提交信息首行的正则：
+ * - `merge` 策略：`Merge branch '<branch>' ...`（也包括 git 默认的 `Merge remote-tracking branch '<remote>/<branch>'`）
+ * - `no-ff`/`squash` 策略生成的提交（`buildMergeCommitMessage`）：`<type>[(scope)]: <branch> -> <target>`，
+ *   超出长度限制时只剩 `<type>[(scope)]: <branch>`
+ *
+ * `rebase` 策略不产生合并提交，需要按提交内容识别（见 `listMergedBranchRefs`）。
+ * 分支名本身超出长度限制、被截断的提交信息无法识别。
+ * @param remote remote 名称
+ * @param branch 分支名
+ * @returns 正则列表
+ */
+export function generatedMergeSubjects(remote: string, branch: string): RegExp[] {
+  const name = escapeRegExp(branch);
+  return [
+    new RegExp(`^Merge (?:remote-tracking )?branch '(?:${escapeRegExp(remote)}/)?${name}'`),
+    new RegExp(`^[a-z]+(?:\\([^)]*\\))?!?: ${name}(?: -> |$)`),
+  ];
+}
+
+// Rebased commits keep their patch ids, so `git cherry` marks every one of them with "-".
+async function isCherryPicked(git: SimpleGit, into: string, ref: string): Promise<boolean> {
+  const lines = (await git.raw(["cherry", into, ref]).catch(() => "")).split("\n").filter(Boolean);
+  return lines.length > 0 && lines.every((line) => line.startsWith("-"));
+}
+
+// A squash leaves only the generated subject behind; it covers the branch if nothing was committed after it.
+async function hasGeneratedMerge(
+  git: SimpleGit,
+  remote: string,
+  into: string,
+  ref: string,
+  committedAt: number,
+): Promise<boolean> {
+  const branch = ref.replace(/^refs\/heads\//, "").replace(new RegExp(`^refs/remotes/${escapeRegExp(remote)}/`), "");
+  const base = (await git.raw(["merge-base", into, ref]).catch(() => "")).trim();
+  if (!base) return false;
+  const output = await git.raw(["log", "--first-parent", "--format=%ct%x09%s", `${base}..${into}`]);
+  const subjects = generatedMergeSubjects(remote, branch);
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .some((line) => {
+      const [unix = "", ...subject] = line.split("\t");
+      return Number(unix) >= committedAt && subjects.some((pattern) => pattern.test(subject.join("\t")));
+    });
+}
+
+/**
+ * 列出已经合并进 `into` 的分支 ref。除了祖先关系（普通 merge / fast-forward），还识别：
+ * - rebase 合并：分支上的提交都已经以相同的 patch 出现在 `into` 上（`git cherry`）
+ * - squash 合并：`into` 上有 `to-test` 为该分支生成的提交，且分支在那之后没有新提交
+ * @param git `simple-git` 实例
+ * @param remote remote 名称（用于从远程 ref 中取分支名）
+ * @param into 目标 ref（如 `refs/remotes/origin/main`）
+ * @param prefixes 要检查的 ref 前缀（如 `refs/heads`、`refs/remotes`）
+ * @returns 已合并的完整 ref 名（如 `refs/heads/feat/x`）
+ */
+export async function listMergedBranchRefs(
+  git: SimpleGit,
+  remote: string,
+  into: string,
+  prefixes: readonly string[],
+): Promise<Set<string>> {
+  const merged = await git.raw(["for-each-ref", `--merged=${into}`, "--format=%(refname)", ...prefixes]);
+  const refs = new Set(merged.split("\n").filter(Boolean));
+  const unmerged = await git.raw([
+    "for-each-ref",
+    `--no-merged=${into}`,
+    "--format=%(refname)%09%(committerdate:unix)",
+    ...prefixes,
+  ]);
+  for (const line of unmerged.split("\n").filter(Boolean)) {
+    const [ref = "", unix = ""] = line.split("\t");
+    if (ref.endsWith("/HEAD")) continue;
+    if ((await isCherryPicked(git, into, ref)) || (await hasGeneratedMerge(git, remote, into, ref, Number(unix)))) {
+      refs.add(ref);
+    }
+  }
+  return refs;
+}
+
+/**
+ * 若工作区有变更，则 staged 变更并提交：
+ * - 交互模式：先选择要 staged 的文件/hunk（或一键 stage all），再提示输入提交信息/选择 type
+ * - 非交互模式：等同 `git add -A`，但会跳过 `cicd.config.js` 中 `stage.exclude` 匹配的文件
  * - 非交互模式：要求显式提供 `commitMessage`（且 message 必须自带前缀或提供 `commitType`）
  *
+ * 提交类型、subject 长度、scope 是否必填以及分支允许的类型均来自 `cicd.config.js` 的 `commit` 配置。
+ * 交互模式下可选补充 body / breaking change / issue 引用；非交互模式通过 `commitBody`/`breaking`/`issues` 传入。
+ * 若配置了 `ticket`，会把从分支名提取的 ticket ID 加到提交信息中（首行前缀/后缀或 footer）。
+ * 提交前会扫描 staged 变更中的密钥/敏感文件，发现问题时阻止提交。
+ * 若 `scopes` 配置了路径 glob，会根据 staged 文件预选 scope，跨多个 scope 时可拆分为每个 scope 一次提交。
+ *
  * 该函数会输出日志并展示变更文件列表。
  * @param git `simple-git` 实例
  * @param options 提交相关参数
- * @throws 当 `commitType` 非法，或非交互模式参数不足时抛错
+ * @throws 当 `commitType` 非法、提交信息不符合规则、发现疑似密钥，或非交互模式参数不足时抛错
  */
-export async function commitIfDirty(
-  git: SimpleGit,
-  options: { commitMessage?: string; commitType?: string; cwd?: string },
-): Promise<void> {
+export async function commitIfDirty(git: SimpleGit, options: CommitOptions): Promise<void> {
   logStep("Scanning working tree status");
   const status = await git.status();
   const isDirty = status.files.length > 0;
@@ -232,55 +655,138 @@ export async function commitIfDirty(
   }
   process.stdout.write("\n");
 
-  logStep("Staging changes (git add -A)");
-  await git.add(["-A"]);
-
-  const staged = (await git.diff(["--cached", "--name-only"])).trim();
-  if (staged.length === 0) return;
+  const cwd = options.cwd ?? process.cwd();
+  // Resolve branch policies before staging so a hard error leaves the index untouched.
+  const rules = await loadCicdConfigCommitRules(cwd);
+  const branch = (await git.revparse(["--abbrev-ref", "HEAD"])).trim();
+  const allowedTypes = commitTypesForBranch(rules, branch === "HEAD" ? null : branch);
+  if (allowedTypes.length === 0) {
+    throw new Error(`no commit types are allowed on branch '${branch}'; check commit.branchTypes in cicd.config.js`);
+  }
+  const ticketRules = await loadCicdConfigTicketRules(cwd);
+  const ticket = ticketRules && branch !== "HEAD" ? resolveBranchTicket(ticketRules, branch) : null;
+  const lintRules = await loadCommitLintRules(cwd, branch === "HEAD" ? null : branch);
+  const buildHeader = (message: string, type: string | undefined, scope: string): string => {
+    const header =
+      hasConventionalPrefix(message) || !type
+        ? message
+        : scope
+          ? `${type}(${scope}): ${message.trim()}`
+          : `${type}: ${message.trim()}`;
+    return ticket && ticketRules ? applyTicketToHeader(header, ticket, ticketRules.placement) : header;
+  };
 
-  logStep("Preparing commit message");
   let message = options.commitMessage?.trim();
-  let type: CommitType | undefined;
-  let scope = "";
-  const shouldPromptScope = process.stdin.isTTY && !options.commitMessage;
-
+  let type: string | undefined;
   if (options.commitType) {
     const candidate = options.commitType.trim();
-    if (!isRecognizedCommitType(candidate)) {
-      throw new Error(`unknown commit type: ${candidate} (allowed: ${allowedCommitTypesText()})`);
+    if (!isRecognizedCommitType(candidate, allowedTypes)) {
+      throw new Error(
+        `commit type '${candidate}' is not allowed on '${branch}' (allowed: ${allowedCommitTypesText(allowedTypes)})`,
+      );
     }
     type = candidate;
   }
-
-  if (!message || !type) {
-    if (!process.stdin.isTTY) {
-      if (!message) {
-        throw new Error("working tree has changes; pass --message in non-interactive mode");
-      }
-      if (!type && !hasConventionalPrefix(message)) {
-        throw new Error(
-          "commit message has no type prefix; pass --type or use an already-prefixed message like 'feat: ...'",
-        );
-      }
+  if (!process.stdin.isTTY && (!message || !type)) {
+    if (!message) {
+      throw new Error("working tree has changes; pass --message in non-interactive mode");
+    }
+    if (!type && !hasConventionalPrefix(message)) {
+      throw new Error(
+        "commit message has no type prefix; pass --type or use an already-prefixed message like 'feat: ...'",
+      );
     }
+  }
+  // A message passed on the command line is checked before staging, so a bad one fails without touching the index.
+  // The type may still be prompted for later; any allowed type stands in for it here.
+  if (message) {
+    const header = buildHeader(message, type ?? allowedTypes[0]!.value, "");
+    const problems = lintCommitMessage(header, lintRules);
+    if (problems.length > 0) throw new Error(`invalid commit message '${header}': ${problems.join("; ")}`);
+  }
 
+  const excludes = await loadCicdConfigStageExcludes(cwd);
+  if (process.stdin.isTTY && !options.commitMessage) {
+    await promptStageSelection(git, status.files, excludes);
+  } else {
+    await stageAllExcept(git, status.files, excludes);
+  }
+
+  const staged = (await git.diff(["--cached", "--name-only", "--no-renames"])).trim();
+  if (staged.length === 0) {
+    logWarning("Nothing staged; skipping commit.");
+    return;
+  }
+
+  logStep("Scanning staged changes for secrets");
+  const findings = await scanStagedChanges(git, cwd, await loadCicdConfigSecretRules(cwd));
+  if (findings.length > 0) {
+    printSecretFindings(findings);
+    throw new Error(`commit blocked: ${findings.length} possible secret(s) in staged changes (still staged; fix and rerun)`);
+  }
+
+  logStep("Preparing commit message");
+
+  let scopedCommits: ScopedCommit[] = [{ scope: "", paths: null }];
+  const shouldPromptScope = process.stdin.isTTY && !options.commitMessage;
+
+  if (!message || !type) {
     // Per expected UX: let user type the message first, then choose the prefix/type.
-    if (!message) message = await promptCommitSubject();
-    if (!type && !hasConventionalPrefix(message)) type = await promptCommitType();
+    if (!message) {
+      // Leave room for the ticket that applyTicketToHeader adds to the subject afterwards.
+      const reserved = ticket && ticketRules ? ticketSubjectLength(ticket, ticketRules.placement) : 0;
+      const max = rules.subjectMaxLength;
+      message = await promptCommitSubject(max === null ? null : Math.max(1, max - reserved));
+    }
+    if (!type && !hasConventionalPrefix(message)) type = await promptCommitType(allowedTypes);
   }
 
   if (shouldPromptScope && type && message && !hasConventionalPrefix(message)) {
-    scope = await promptCommitScope(options.cwd ?? process.cwd());
+    scopedCommits = await promptCommitScopes(cwd, staged.split("\n"), rules.requireScope);
   }
 
-  const finalMessage =
-    hasConventionalPrefix(message) || !type
-      ? message
-      : scope
-        ? `${type}(${scope}): ${message.trim()}`
-        : `${type}: ${message.trim()}`;
-  logStep(`Committing: ${finalMessage}`);
-  await git.commit(finalMessage);
+  const headerFor = (scope: string): string => buildHeader(message, type, scope);
+
+  const subject = hasConventionalPrefix(message)
+    ? message.trim().replace(/^[a-z]+(\([^)]+\))?!?:\s+/, "")
+    : message.trim();
+  const details: CommitDetails = shouldPromptScope
+    ? await promptCommitDetails(subject)
+    : {
+        body: options.commitBody,
+        breaking:
+          typeof options.breaking === "string" && options.breaking.trim()
+            ? options.breaking
+            : options.breaking
+              ? subject
+              : undefined,
+        issues: options.issues,
+      };
+  if (ticket && ticketRules?.placement === "footer" && !message.includes(ticket)) {
+    details.issues = [...(details.issues ?? []), ticket];
+  }
+
+  const commits = scopedCommits.map((c) => ({
+    paths: c.paths,
+    message: buildCommitMessage({ header: headerFor(c.scope), ...details }),
+  }));
+  for (const commit of commits) {
+    const problems = lintCommitMessage(commit.message, lintRules);
+    if (problems.length > 0) {
+      throw new Error(`invalid commit message '${commit.message}': ${problems.join("; ")}`);
+    }
+  }
+
+  // When splitting by scope, snapshot the index once so partially staged hunks survive re-staging.
+  const stagedTree = commits.length > 1 ? (await git.raw(["write-tree"])).trim() : null;
+  for (const commit of commits) {
+    if (stagedTree && commit.paths) {
+      await git.raw(["reset", "-q"]);
+      await git.raw(["reset", "-q", stagedTree, "--", ...commit.paths]);
+    }
+    logStep(`Committing: ${commit.message.split("\n")[0]}`);
+    await git.commit(commit.message);
+  }
 }
 
 /**
@@ -308,11 +814,13 @@ export async function pullIfPossible(
     return;
   }
 
+  // Changes left unstaged by the picker must survive the pull untouched.
+  const pullOptions = (await git.status()).isClean() ? [] : ["--autostash"];
   try {
     if (hasUpstream) {
-      await git.pull();
+      await git.pull(pullOptions);
     } else {
-      await git.pull(remote, branch);
+      await git.pull(remote, branch, pullOptions);
     }
   } catch {
     const after = await git.status();
@@ -371,6 +879,8 @@ export async function ensureLocalBranchFromRemote(git: SimpleGit, remote: string
  * @param remote remote 名称
  * @param sourceBranch 要合并进来的源分支名（通常是当前分支名）
  * @param rerunCommandName 发生冲突时提示用户重跑的命令名
+ * @param message 可选：merge 提交信息（默认使用 git 生成的信息）
+ * @param strategy 合并方式：`merge`（默认，可 fast-forward）、`no-ff`（总是生成 merge 提交）、`squash`（压缩为一个普通提交）
  * @throws merge 失败或产生冲突时抛错
  */
 export async function mergeRemoteBranchIntoCurrent(
@@ -378,10 +888,14 @@ export async function mergeRemoteBranchIntoCurrent(
   remote: string,
   sourceBranch: string,
   rerunCommandName: string,
+  message?: string,
+  strategy: Exclude<MergeStrategy, "rebase"> = "merge",
 ): Promise<void> {
   try {
     await git.fetch(remote, sourceBranch);
-    await git.merge([`${remote}/${sourceBranch}`]);
+    const flags = strategy === "no-ff" ? ["--no-ff"] : strategy === "squash" ? ["--squash"] : [];
+    const messageArgs = message && strategy !== "squash" ? ["-m", message] : [];
+    await git.merge([...flags, ...messageArgs, `${remote}/${sourceBranch}`]);
   } catch {
     const after = await git.status();
     if (after.conflicted && after.conflicted.length > 0) {
@@ -392,4 +906,9 @@ export async function mergeRemoteBranchIntoCurrent(
     }
     throw new Error("git merge failed; please fix and rerun");
   }
+
+  if (strategy !== "squash") return;
+  const staged = (await git.diff(["--cached", "--name-only"])).trim();
+  if (!staged) return;
+  await git.commit(message ?? `Squashed commit of ${remote}/${sourceBranch}`);
 }
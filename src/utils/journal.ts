@@ -0,0 +1,86 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { type SimpleGit } from "simple-git";
+import { getGitStatePath } from "./state.js";
+
+const JOURNAL_FILE = "journal.json";
+const JOURNAL_LIMIT = 50;
+
+/**
+ * 一个分支引用的变化（`remote` 为 `null` 时是本地分支）；`null` 表示分支不存在。
+ */
+export type RefChange = {
+  remote: string | null;
+  branch: string;
+  before: string | null;
+  after: string | null;
+};
+
+/**
+ * 一个 tag 的变化（`remote` 为 `null` 时是本地 tag）；`null` 表示 tag 不存在。
+ */
+export type TagChange = {
+  remote: string | null;
+  tag: string;
+  before: string | null;
+  after: string | null;
+};
+
+/**
+ * 一次修改了分支或 tag 引用的 git 操作。`head` 为执行前后检出的分支（push 等不涉及 HEAD 的操作为 `null`）。
+ */
+export type JournalStep = {
+  cwd: string;
+  args: string[];
+  head: { before: string | null; after: string | null } | null;
+  refs: RefChange[];
+  // Absent in journals written before tags were recorded.
+  tags?: TagChange[];
+};
+
+/**
+ * 一次命令执行（如 to-self）记录下来的所有操作。
+ */
+export type JournalEntry = {
+  command: string;
+  cwd: string;
+  startedAt: string;
+  finishedAt: string;
+  ok: boolean;
+  steps: JournalStep[];
+  undoneAt?: string;
+};
+
+/**
+ * 读取 `.git/cicd/journal.json` 中的操作记录（按时间顺序）。
+ * @param git `simple-git` 实例
+ * @returns 操作记录；不存在或无法解析时返回空数组
+ */
+export async function readJournal(git: SimpleGit): Promise<JournalEntry[]> {
+  try {
+    const parsed = JSON.parse(await readFile(await getGitStatePath(git, JOURNAL_FILE), "utf8")) as unknown;
+    return Array.isArray(parsed) ? (parsed as JournalEntry[]).filter((e) => e && Array.isArray(e.steps)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 保存操作记录（只保留最近的 50 条）。
+ * @param git `simple-git` 实例
+ * @param entries 操作记录
+ */
+export async function writeJournal(git: SimpleGit, entries: readonly JournalEntry[]): Promise<void> {
+  const path = await getGitStatePath(git, JOURNAL_FILE);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(entries.slice(-JOURNAL_LIMIT), null, 2)}\n`, "utf8");
+}
+
+/**
+ * 追加一条操作记录。
+ * @param git `simple-git` 实例
+ * @param entry 操作记录
+ */
+export async function appendJournalEntry(git: SimpleGit, entry: JournalEntry): Promise<void> {
+  await writeJournal(git, [...(await readJournal(git)), entry]);
+}
@@ -0,0 +1,92 @@
+export type CommitLintRules = {
+  types: readonly string[];
+  scopes: readonly string[] | null;
+  subjectMaxLength: number | null;
+  requireScope?: boolean;
+};
+
+export type ParsedCommitHeader = {
+  type: string;
+  scope: string;
+  breaking: boolean;
+  subject: string;
+};
+
+/**
+ * 解析提交信息首行（`<type>(<scope>)!: <subject>`）。
+ * @param header 提交信息的第一行
+ * @returns 解析结果；格式不符合时返回 `null`
+ */
+export function parseCommitHeader(header: string): ParsedCommitHeader | null {
+  const match = /^([a-zA-Z]+)(?:\(([^()]*)\))?(!)?:\s*(.*)$/.exec(header.trim());
+  if (!match) return null;
+  return {
+    type: match[1]!,
+    scope: (match[2] ?? "").trim(),
+    breaking: Boolean(match[3]),
+    subject: (match[4] ?? "").trim(),
+  };
+}
+
+/**
+ * 去掉 git 在编辑提交信息时附带的注释行（`#` 开头）以及首尾空行。
+ * @param raw 原始提交信息（通常来自 `.git/COMMIT_EDITMSG`）
+ * @returns 清理后的提交信息
+ */
+export function stripCommitComments(raw: string): string {
+  return raw
+    .split(/\r?\n/)
+    .filter((line) => !line.startsWith("#"))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * 判断是否为 git 自动生成、无需校验的提交信息（merge/fixup/squash 等）。
+ * @param header 提交信息的第一行
+ * @returns 是否跳过校验
+ */
+export function isAutoGeneratedCommit(header: string): boolean {
+  return /^(Merge (branch|remote-tracking branch|pull request|tag|commit) |Merge '|fixup! |squash! |amend! )/.test(header);
+}
+
+/**
+ * 按约定校验提交信息：`<type>(<scope>): <subject>`。
+ * @param message 完整提交信息
+ * @param rules 校验规则（type 列表、scope 列表、subject 长度上限（`null` 不限制）、scope 是否必填）
+ * @returns 错误列表；为空表示通过
+ */
+export function lintCommitMessage(message: string, rules: CommitLintRules): string[] {
+  const lines = message.split(/\r?\n/);
+  const header = lines[0]?.trim() ?? "";
+  if (!header) return ["commit message is empty"];
+  if (isAutoGeneratedCommit(header)) return [];
+
+  const parsed = parseCommitHeader(header);
+  if (!parsed) {
+    return [`header must look like '<type>(<scope>): <subject>', got '${header}'`];
+  }
+
+  const errors: string[] = [];
+  if (!rules.types.includes(parsed.type)) {
+    errors.push(`unknown commit type: ${parsed.type} (allowed: ${rules.types.join(", ")})`);
+  }
+  if (!parsed.scope && rules.requireScope) {
+    errors.push("scope is required");
+  }
+  if (parsed.scope) {
+    if (/\s/.test(parsed.scope)) errors.push(`scope should not contain spaces: '${parsed.scope}'`);
+    else if (rules.scopes && !rules.scopes.includes(parsed.scope)) {
+      errors.push(`unknown scope: ${parsed.scope} (allowed: ${rules.scopes.join(", ")})`);
+    }
+  }
+  if (!parsed.subject) {
+    errors.push("subject cannot be empty");
+  } else if (rules.subjectMaxLength !== null && [...parsed.subject].length > rules.subjectMaxLength) {
+    errors.push(`subject is longer than ${rules.subjectMaxLength} characters (${[...parsed.subject].length})`);
+  }
+  if (lines.length > 1 && lines[1]!.trim() !== "") {
+    errors.push("header must be followed by a blank line before the body");
+  }
+  return errors;
+}
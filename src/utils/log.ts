@@ -2,6 +2,7 @@ import chalk from "chalk";
 
 export type GitStatusFile = {
   path: string;
+  from?: string;
   index?: string;
   working_dir?: string;
 };
@@ -36,8 +37,15 @@ export function logHeading(message: string): void {
   process.stdout.write(`${chalk.bold(message)}\n`);
 }
 
+// Machine-readable output (e.g. `to-status --json`) keeps stdout clean by moving warnings to stderr.
+let warningsToStderr = false;
+
+export function setWarningsToStderr(enabled: boolean): void {
+  warningsToStderr = enabled;
+}
+
 export function logWarning(message: string): void {
-  process.stdout.write(`${chalk.yellow(message)}\n`);
+  (warningsToStderr ? process.stderr : process.stdout).write(`${chalk.yellow(message)}\n`);
 }
 
 export function logSuccess(message: string): void {
@@ -53,3 +61,40 @@ export function formatGitStatusLine(file: GitStatusFile): string {
 export function formatCliError(name: string, message: string): string {
   return `${chalk.red(name)}: ${chalk.redBright(message)}`;
 }
+
+export function formatPrefixedLine(prefix: string, line: string): string {
+  return `${chalk.dim(`[${prefix}]`)} ${line}`;
+}
+
+export function formatCheckResult(status: "passed" | "failed" | "skipped" | "not run", label: string): string {
+  switch (status) {
+    case "passed":
+      return `${chalk.green("✔")} ${label}`;
+    case "failed":
+      return `${chalk.red("✘")} ${chalk.redBright(label)}`;
+    default:
+      return `${chalk.dim("-")} ${chalk.dim(`${label} (${status})`)}`;
+  }
+}
+
+export function formatTable(header: readonly string[], rows: readonly (readonly string[])[]): string {
+  // Cells may already be colored, so measure them without the ANSI escapes.
+  const visibleLength = (value: string): number => value.replace(/\u001b\[[0-9;]*m/g, "").length;
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => visibleLength(row[i] ?? ""))));
+  const pad = (value: string, i: number): string => value + " ".repeat(widths[i]! - visibleLength(value));
+  const lines = [
+    header.map((title, i) => chalk.bold(pad(title, i))).join("  "),
+    ...rows.map((row) => row.map((cell, i) => pad(cell, i)).join("  ")),
+  ];
+  return lines.map((line) => line.trimEnd()).join("\n");
+}
+
+export function formatMuted(value: string): string {
+  return chalk.dim(value);
+}
+
+export function formatAheadBehind(ahead: number, behind: number): string {
+  if (ahead === 0 && behind === 0) return formatCheckResult("passed", "up to date");
+  const parts = [ahead > 0 ? chalk.green(`↑${ahead}`) : "", behind > 0 ? chalk.red(`↓${behind}`) : ""];
+  return parts.filter(Boolean).join(" ");
+}
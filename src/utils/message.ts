@@ -0,0 +1,69 @@
+export type CommitMessageParts = {
+  header: string;
+  body?: string;
+  breaking?: string;
+  issues?: string[];
+};
+
+const ISSUE_KEYWORD = /^(close[sd]?|fix(e[sd])?|resolve[sd]?|refs?|related|see)\b[:\s]*/i;
+
+/**
+ * 规范化单个 issue 引用为 footer 行。
+ * - 已带关键字的保持原样（如 `Closes #123`）
+ * - 只有编号的补全为 `Refs <id>`（如 `PROJ-42` -> `Refs PROJ-42`）
+ * @param value 用户输入的引用
+ * @returns footer 行；为空时返回 `null`
+ */
+export function normalizeIssueRef(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const match = ISSUE_KEYWORD.exec(trimmed);
+  if (!match) return `Refs ${trimmed}`;
+
+  const keyword = match[1]!;
+  const ref = trimmed.slice(match[0].length).trim();
+  if (!ref) return null;
+  return `${keyword[0]!.toUpperCase()}${keyword.slice(1).toLowerCase()} ${ref}`;
+}
+
+/**
+ * 将逗号/换行分隔的 issue 引用拆分并规范化。
+ * @param values 一个或多个输入值（如 `"Closes #1, PROJ-42"`）
+ * @returns footer 行列表（已去重）
+ */
+export function parseIssueRefs(values: readonly string[]): string[] {
+  const refs = values
+    .flatMap((v) => v.split(/[,\n]/))
+    .map((v) => normalizeIssueRef(v))
+    .filter((v): v is string => Boolean(v));
+  return Array.from(new Set(refs));
+}
+
+/**
+ * 给提交信息首行加上 breaking change 标记：`feat(scope): x` -> `feat(scope)!: x`。
+ * @param header 提交信息首行
+ * @returns 带 `!` 的首行（已带则原样返回）
+ */
+export function markHeaderBreaking(header: string): string {
+  return header.replace(/^([a-zA-Z]+(?:\([^()]*\))?)(!)?:/, "$1!:");
+}
+
+/**
+ * 组装完整的 Conventional Commit 提交信息（header + body + footers）。
+ * @param parts 各部分内容
+ * @returns 提交信息文本
+ */
+export function buildCommitMessage(parts: CommitMessageParts): string {
+  const breaking = parts.breaking?.trim();
+  const header = breaking ? markHeaderBreaking(parts.header.trim()) : parts.header.trim();
+  const footers = [
+    ...(breaking ? [`BREAKING CHANGE: ${breaking}`] : []),
+    ...parseIssueRefs(parts.issues ?? []),
+  ];
+
+  const sections = [header];
+  const body = parts.body?.trim();
+  if (body) sections.push(body);
+  if (footers.length > 0) sections.push(footers.join("\n"));
+  return sections.join("\n\n");
+}
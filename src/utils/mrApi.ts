@@ -0,0 +1,187 @@
+import { logWarning } from "./log.js";
+import { type ParsedRemote } from "./mr.js";
+
+export type MrApiTarget = {
+  provider: "github" | "gitlab";
+  baseUrl: string;
+  token: string;
+  ownerPath: string;
+  repo: string;
+};
+
+export type MrRequest = {
+  source: string;
+  target: string;
+  title: string;
+  description: string;
+  reviewers: string[];
+  labels: string[];
+};
+
+export type MrResult = {
+  id: number;
+  url: string;
+  created: boolean;
+};
+
+// A hung API must not block to-main; on timeout it falls back to printing the link.
+const REQUEST_TIMEOUT_MS = 15_000;
+
+type GitHubPull = { number: number; html_url: string };
+type GitLabMergeRequest = { iid: number; web_url: string };
+type GitLabUser = { id: number; username: string };
+
+/**
+ * 获取 MR/PR API 的 base URL：
+ * - 配置了 `mr.apiUrl` 时直接使用（自建 GitLab/GHE、本地测试桩）
+ * - GitHub：`github.com` 使用 `https://api.github.com`，其它（GHE）使用 `<网页地址>/api/v3`
+ * - GitLab：`<网页地址>/api/v4`
+ * @param parsed 解析后的 remote 信息
+ * @param configured `cicd.config.js` 中的 `mr.apiUrl`
+ * @returns base URL（不带结尾的 `/`）；未知平台返回 `null`
+ */
+export function resolveMrApiBaseUrl(parsed: ParsedRemote, configured: string | null): string | null {
+  if (configured) return configured.replace(/\/+$/, "");
+  if (parsed.provider === "github") {
+    return parsed.host === "github.com" ? "https://api.github.com" : `${parsed.webBaseUrl}/api/v3`;
+  }
+  if (parsed.provider === "gitlab") return `${parsed.webBaseUrl}/api/v4`;
+  return null;
+}
+
+/**
+ * 获取 MR/PR API 的 token：依次读取 `CICD_MR_TOKEN`、平台对应的环境变量
+ * （GitHub：`GITHUB_TOKEN`/`GH_TOKEN`；GitLab：`GITLAB_TOKEN`），最后是 `cicd.config.js` 中的 `mr.token`。
+ * @param provider 平台
+ * @param configured `cicd.config.js` 中的 `mr.token`
+ * @returns token；都没有时返回 `null`
+ */
+export function resolveMrApiToken(provider: MrApiTarget["provider"], configured: string | null): string | null {
+  const names = provider === "github" ? ["CICD_MR_TOKEN", "GITHUB_TOKEN", "GH_TOKEN"] : ["CICD_MR_TOKEN", "GITLAB_TOKEN"];
+  for (const name of names) {
+    const value = process.env[name]?.trim();
+    if (value) return value;
+  }
+  return configured;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function requestJson<T>(api: MrApiTarget, method: string, path: string, body?: unknown): Promise<T> {
+  const headers: Record<string, string> =
+    api.provider === "github"
+      ? {
+          Authorization: `Bearer ${api.token}`,
+          Accept: "application/vnd.github+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+        }
+      : { "PRIVATE-TOKEN": api.token };
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+
+  const url = `${api.baseUrl}${path}`;
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: { "User-Agent": "qh-cicd", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    text = await response.text();
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new Error(`${method} ${url} timed out after ${REQUEST_TIMEOUT_MS / 1000}s`);
+    }
+    throw error;
+  }
+  if (!response.ok) {
+    let detail = text.trim();
+    try {
+      const parsed = JSON.parse(text) as { message?: unknown; error?: unknown };
+      detail = JSON.stringify(parsed.message ?? parsed.error ?? parsed);
+    } catch {
+      // Not JSON; keep the raw text.
+    }
+    throw new Error(`${method} ${url} failed: ${response.status} ${detail.slice(0, 300)}`);
+  }
+  return (text ? JSON.parse(text) : null) as T;
+}
+
+async function createOrReuseGitHubPull(api: MrApiTarget, request: MrRequest): Promise<MrResult> {
+  const repo = `/repos/${api.ownerPath}/${encodeURIComponent(api.repo)}`;
+  const owner = api.ownerPath.split("/")[0]!;
+  const query = new URLSearchParams({ state: "open", head: `${owner}:${request.source}`, base: request.target });
+  const [existing] = await requestJson<GitHubPull[]>(api, "GET", `${repo}/pulls?${query.toString()}`);
+  if (existing) return { id: existing.number, url: existing.html_url, created: false };
+
+  const pull = await requestJson<GitHubPull>(api, "POST", `${repo}/pulls`, {
+    title: request.title,
+    head: request.source,
+    base: request.target,
+    body: request.description,
+  });
+  // A PR without reviewers/labels is still useful, so those only warn.
+  if (request.reviewers.length > 0) {
+    await requestJson(api, "POST", `${repo}/pulls/${pull.number}/requested_reviewers`, {
+      reviewers: request.reviewers,
+    }).catch((error: unknown) => logWarning(`Could not request reviewers: ${errorMessage(error)}`));
+  }
+  if (request.labels.length > 0) {
+    await requestJson(api, "POST", `${repo}/issues/${pull.number}/labels`, { labels: request.labels }).catch(
+      (error: unknown) => logWarning(`Could not add labels: ${errorMessage(error)}`),
+    );
+  }
+  return { id: pull.number, url: pull.html_url, created: true };
+}
+
+async function resolveGitLabUserIds(api: MrApiTarget, usernames: readonly string[]): Promise<number[]> {
+  const ids: number[] = [];
+  for (const username of usernames) {
+    const [user] = await requestJson<GitLabUser[]>(api, "GET", `/users?username=${encodeURIComponent(username)}`);
+    if (user) ids.push(user.id);
+    else logWarning(`GitLab user '${username}' not found; not adding as reviewer.`);
+  }
+  return ids;
+}
+
+async function createOrReuseGitLabMergeRequest(api: MrApiTarget, request: MrRequest): Promise<MrResult> {
+  const project = `/projects/${encodeURIComponent(`${api.ownerPath}/${api.repo}`)}`;
+  const query = new URLSearchParams({
+    state: "opened",
+    source_branch: request.source,
+    target_branch: request.target,
+  });
+  const path = `${project}/merge_requests`;
+  const [existing] = await requestJson<GitLabMergeRequest[]>(api, "GET", `${path}?${query.toString()}`);
+  if (existing) return { id: existing.iid, url: existing.web_url, created: false };
+
+  const reviewerIds = await resolveGitLabUserIds(api, request.reviewers).catch((error: unknown) => {
+    logWarning(`Could not look up reviewers: ${errorMessage(error)}`);
+    return [];
+  });
+  const mr = await requestJson<GitLabMergeRequest>(api, "POST", path, {
+    source_branch: request.source,
+    target_branch: request.target,
+    title: request.title,
+    description: request.description,
+    ...(reviewerIds.length > 0 ? { reviewer_ids: reviewerIds } : {}),
+    ...(request.labels.length > 0 ? { labels: request.labels.join(",") } : {}),
+  });
+  return { id: mr.iid, url: mr.web_url, created: true };
+}
+
+/**
+ * 通过 GitHub Pulls API / GitLab Merge Requests API 创建 MR/PR；
+ * 已存在相同源分支/目标分支的 open MR/PR 时直接复用。
+ * @param api API 地址、token 和仓库
+ * @param request MR/PR 内容
+ * @returns MR/PR 编号、网页地址，以及是否为新建
+ * @throws 请求失败时抛错
+ */
+export async function createOrReuseMr(api: MrApiTarget, request: MrRequest): Promise<MrResult> {
+  if (api.provider === "github") return await createOrReuseGitHubPull(api, request);
+  return await createOrReuseGitLabMergeRequest(api, request);
+}
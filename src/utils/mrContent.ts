@@ -0,0 +1,97 @@
+import { type ChangelogEntry, groupChangelogEntries } from "./changelog.js";
+import { type CommitTypeOption } from "./config.js";
+
+/**
+ * 还原提交信息首行（`<type>(<scope>)!: <subject>`）。
+ * @param entry 解析后的提交
+ * @returns 首行
+ */
+export function formatEntryHeader(entry: ChangelogEntry): string {
+  if (!entry.type) return entry.subject;
+  return `${entry.type}${entry.scope ? `(${entry.scope})` : ""}${entry.breaking ? "!" : ""}: ${entry.subject}`;
+}
+
+/**
+ * 生成 MR/PR 标题：
+ * - 只有一个提交时使用该提交的首行
+ * - 否则根据分支名生成（如 `feat/PROJ-12-login-page` -> `feat: login page`）
+ * - 有 ticket 且标题中没有时加上 `[PROJ-12]` 前缀
+ * @param entries 源分支相对目标分支的提交
+ * @param branch 源分支名
+ * @param types 可用的提交类型列表
+ * @param ticket 分支的 ticket ID（可为 `null`）
+ * @returns 标题
+ */
+export function buildMrTitle(
+  entries: readonly ChangelogEntry[],
+  branch: string,
+  types: readonly CommitTypeOption[],
+  ticket: string | null,
+): string {
+  let title: string;
+  if (entries.length === 1) {
+    title = formatEntryHeader(entries[0]!);
+  } else {
+    const [prefix = "", ...rest] = branch.split("/");
+    const type = rest.length > 0 && types.some((t) => t.value === prefix) ? prefix : null;
+    let words = type ? rest.join("/") : branch;
+    if (ticket) words = words.replace(ticket, "");
+    words = words.replace(/[-_/.]+/g, " ").trim() || branch;
+    title = type ? `${type}: ${words}` : words;
+  }
+  return ticket && !title.includes(ticket) ? `[${ticket}] ${title}` : title;
+}
+
+/**
+ * 生成 MR/PR 描述：按提交类型分组列出源分支的提交（Markdown）。
+ * @param entries 源分支相对目标分支的提交
+ * @param types 可用的提交类型列表
+ * @returns Markdown 文本；没有提交时返回空字符串
+ */
+export function buildMrDescription(entries: readonly ChangelogEntry[], types: readonly CommitTypeOption[]): string {
+  const lines: string[] = [];
+  const breaking = entries.filter((e) => e.breaking);
+  if (breaking.length > 0) {
+    lines.push("### ⚠ BREAKING CHANGES", "");
+    for (const entry of breaking) {
+      lines.push(`- ${formatEntryHeader(entry)} (${entry.shortHash})`);
+      for (const note of entry.breakingNotes) lines.push(`  - ${note}`);
+    }
+    lines.push("");
+  }
+  for (const group of groupChangelogEntries(entries, types)) {
+    lines.push(`### ${group.label}`, "");
+    for (const scopeGroup of group.scopes) {
+      for (const entry of scopeGroup.entries) {
+        const prefix = entry.scope ? `**${entry.scope}:** ` : "";
+        lines.push(`- ${prefix}${entry.subject} (${entry.shortHash})`);
+      }
+    }
+    lines.push("");
+  }
+  return lines.join("\n").trimEnd();
+}
+
+export type MrTemplateValues = {
+  title: string;
+  commits: string;
+  branch: string;
+  target: string;
+  ticket: string | null;
+};
+
+/**
+ * 用 Markdown 模板生成 MR/PR 描述：替换 `{title}`、`{commits}`、`{branch}`、`{target}`、`{ticket}` 占位符。
+ * 模板中没有 `{commits}` 时，提交列表追加在模板末尾。
+ * @param template 模板内容
+ * @param values 占位符对应的值（`commits` 为 `buildMrDescription` 的结果）
+ * @returns Markdown 文本
+ */
+export function renderMrTemplate(template: string, values: MrTemplateValues): string {
+  const replacements: Record<string, string> = { ...values, ticket: values.ticket ?? "" };
+  const rendered = template
+    .replace(/\{(title|commits|branch|target|ticket)\}/g, (_, key: string) => replacements[key]!)
+    .trim();
+  if (template.includes("{commits}") || !values.commits) return rendered;
+  return `${rendered}\n\n${values.commits}`.trim();
+}
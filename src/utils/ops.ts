@@ -0,0 +1,415 @@
+import { copyFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { simpleGit, type SimpleGit } from "simple-git";
+import { appendJournalEntry, type JournalStep, type RefChange, type TagChange } from "./journal.js";
+import { logHeading, logWarning } from "./log.js";
+
+/**
+ * 一次 git 操作（`args` 为 `git` 之后的参数）。
+ */
+export type GitOperation = {
+  cwd: string;
+  args: string[];
+};
+
+type Layer = {
+  real: SimpleGit;
+  cwd: string;
+  mode: "record" | "journal";
+  operations: GitOperation[];
+  steps: JournalStep[];
+};
+
+const layers = new WeakMap<object, Layer>();
+
+// Subcommands that only read the repository; everything not listed here is recorded instead of run.
+const READ_ONLY_COMMANDS = new Set([
+  "cat-file",
+  "cherry",
+  "check-ref-format",
+  "describe",
+  "diff",
+  "diff-tree",
+  "for-each-ref",
+  "log",
+  "ls-files",
+  "ls-remote",
+  "merge-base",
+  "rev-list",
+  "rev-parse",
+  "show",
+  "show-ref",
+  "status",
+  "symbolic-ref",
+]);
+
+// simple-git methods that only read the repository; every other method is recorded instead of run.
+// `branch` is checked by its arguments like the raw command.
+const READ_ONLY_METHODS = new Set([
+  "binaryCatFile",
+  "branchLocal",
+  "catFile",
+  "checkIgnore",
+  "checkIsRepo",
+  "countObjects",
+  "diff",
+  "diffSummary",
+  "firstCommit",
+  "getConfig",
+  "getRemotes",
+  "grep",
+  "listConfig",
+  "listRemote",
+  "log",
+  "revparse",
+  "show",
+  "showBuffer",
+  "stashList",
+  "status",
+  "tags",
+  "version",
+]);
+
+// git subcommands shown for recorded simple-git methods; unlisted methods are shown under their own name.
+const METHOD_COMMANDS: Record<string, string[]> = {
+  addAnnotatedTag: ["tag", "-a"],
+  addConfig: ["config"],
+  addRemote: ["remote", "add"],
+  addTag: ["tag"],
+  branch: ["branch"],
+  checkout: ["checkout"],
+  checkoutBranch: ["checkout", "-b"],
+  checkoutLatestTag: ["checkout"],
+  checkoutLocalBranch: ["checkout", "-b"],
+  clean: ["clean"],
+  clone: ["clone"],
+  commit: ["commit"],
+  deleteLocalBranch: ["branch", "-d"],
+  deleteLocalBranches: ["branch", "-d"],
+  fetch: ["fetch"],
+  hashObject: ["hash-object"],
+  init: ["init"],
+  merge: ["merge"],
+  mergeFromTo: ["merge"],
+  mirror: ["clone", "--mirror"],
+  mv: ["mv"],
+  pull: ["pull"],
+  push: ["push"],
+  pushTags: ["push", "--tags"],
+  rebase: ["rebase"],
+  remote: ["remote"],
+  removeRemote: ["remote", "remove"],
+  reset: ["reset"],
+  revert: ["revert"],
+  rm: ["rm"],
+  rmKeepLocal: ["rm", "--cached"],
+  stash: ["stash"],
+  submoduleAdd: ["submodule", "add"],
+  submoduleInit: ["submodule", "init"],
+  submoduleUpdate: ["submodule", "update"],
+  tag: ["tag"],
+};
+
+// Staging goes to a scratch index, so it runs for real and later reads (staged diff, secrets scan) stay accurate.
+const INDEX_METHODS: Record<string, string[]> = {
+  add: ["add"],
+  applyPatch: ["apply"],
+};
+
+function flattenArgs(values: readonly unknown[]): string[] {
+  const args: string[] = [];
+  for (const value of values) {
+    if (typeof value === "string") args.push(value);
+    else if (typeof value === "number") args.push(String(value));
+    else if (Array.isArray(value)) args.push(...flattenArgs(value));
+    else if (value && typeof value === "object") {
+      for (const [key, option] of Object.entries(value)) {
+        args.push(option === null || option === undefined || option === true ? key : `${key}=${String(option)}`);
+      }
+    }
+  }
+  return args;
+}
+
+function isIndexOnlyRaw(args: readonly string[]): boolean {
+  const [command, ...rest] = args;
+  if (command === "apply") return rest.includes("--cached") || rest.includes("--check");
+  // write-tree only adds objects for the (scratch) index; no ref points at them.
+  if (command === "read-tree" || command === "update-index" || command === "write-tree") return true;
+  if (command === "reset") {
+    // `reset [-q] [<tree>] -- <paths>` and a bare `reset [-q]` only touch the index.
+    if (rest.some((a) => ["--hard", "--soft", "--merge", "--keep"].includes(a))) return false;
+    return rest.includes("--") || rest.every((a) => a.startsWith("-"));
+  }
+  return false;
+}
+
+function isReadOnlyRaw(args: readonly string[]): boolean {
+  const [command = "", ...rest] = args;
+  if (READ_ONLY_COMMANDS.has(command)) return true;
+  if (command === "branch") {
+    const mutating = ["-d", "-D", "-f", "-m", "-M", "-c", "-C", "--delete", "--force", "--move", "--copy", "-u"];
+    if (rest.some((a) => mutating.includes(a))) return false;
+    return rest.length === 0 || rest.some((a) => a.startsWith("-"));
+  }
+  if (command === "tag") return rest.length === 0 || rest.includes("--list") || rest.includes("-l");
+  if (command === "worktree") return rest[0] === "list";
+  if (command === "remote") return rest[0] === "get-url" || rest[0] === "-v" || rest[0] === "show";
+  if (command === "config") return rest.some((a) => a.startsWith("--get"));
+  return false;
+}
+
+async function currentBranchOf(git: SimpleGit): Promise<string | null> {
+  const branch = (await git.raw(["symbolic-ref", "--short", "-q", "HEAD"]).catch(() => "")).trim();
+  return branch || null;
+}
+
+async function localRefOf(git: SimpleGit, branch: string): Promise<string | null> {
+  const sha = (await git.raw(["rev-parse", "-q", "--verify", `refs/heads/${branch}`]).catch(() => "")).trim();
+  return sha || null;
+}
+
+async function remoteRefOf(git: SimpleGit, remote: string, ref: string): Promise<string | null> {
+  const output = await git.raw(["ls-remote", remote, ref]).catch(() => "");
+  const line = output.split("\n").find((l) => l.split(/\s+/)[1] === ref);
+  return line?.split(/\s+/)[0] || null;
+}
+
+async function localTagsOf(git: SimpleGit): Promise<Map<string, string>> {
+  const output = await git.raw(["for-each-ref", "--format=%(refname:short)%09%(objectname)", "refs/tags"]);
+  return new Map(output.split("\n").filter(Boolean).map((line) => line.split("\t") as [string, string]));
+}
+
+// Resolves `git push <remote> <src>[:<dst>]` into the remote and the branch or tag ref it updates.
+function pushDestination(args: readonly string[]): { remote: string; ref: string } | null {
+  const positional = args.slice(1).filter((a) => !a.startsWith("-"));
+  const [remote, refspec] = positional;
+  if (!remote || !refspec) return null;
+  const destination = (refspec.includes(":") ? refspec.slice(refspec.indexOf(":") + 1) : refspec).replace(/^\+/, "");
+  if (!destination.startsWith("refs/")) return { remote, ref: `refs/heads/${destination}` };
+  if (destination.startsWith("refs/heads/") || destination.startsWith("refs/tags/")) return { remote, ref: destination };
+  return null;
+}
+
+async function journalStep(layer: Layer, args: string[], execute: () => Promise<unknown>): Promise<unknown> {
+  const git = layer.real;
+  const [command] = args;
+  if (command === "push") {
+    const destination = pushDestination(args);
+    const before = destination ? await remoteRefOf(git, destination.remote, destination.ref) : null;
+    const result = await execute();
+    if (destination) {
+      const { remote, ref } = destination;
+      const after = await remoteRefOf(git, remote, ref);
+      if (before !== after && ref.startsWith("refs/tags/")) {
+        const tags = [{ remote, tag: ref.slice("refs/tags/".length), before, after }];
+        layer.steps.push({ cwd: layer.cwd, args, head: null, refs: [], tags });
+      } else if (before !== after) {
+        const refs = [{ remote, branch: ref.slice("refs/heads/".length), before, after }];
+        layer.steps.push({ cwd: layer.cwd, args, head: null, refs });
+      }
+    }
+    return result;
+  }
+  if (command === "tag") {
+    const before = await localTagsOf(git);
+    try {
+      return await execute();
+    } finally {
+      const after = await localTagsOf(git);
+      const tags: TagChange[] = [];
+      for (const tag of new Set([...before.keys(), ...after.keys()])) {
+        const from = before.get(tag) ?? null;
+        const to = after.get(tag) ?? null;
+        if (from !== to) tags.push({ remote: null, tag, before: from, after: to });
+      }
+      if (tags.length > 0) layer.steps.push({ cwd: layer.cwd, args, head: null, refs: [], tags });
+    }
+  }
+
+  // Local refs: the checked-out branch, plus the branch named by `branch -f <name>`.
+  const watched = new Set<string>();
+  const headBefore = await currentBranchOf(git);
+  if (headBefore) watched.add(headBefore);
+  if (command === "branch") {
+    const [name] = args.slice(1).filter((a) => !a.startsWith("-"));
+    if (name) watched.add(name);
+  }
+  const before = new Map<string, string | null>();
+  for (const branch of watched) before.set(branch, await localRefOf(git, branch));
+
+  try {
+    return await execute();
+  } finally {
+    const headAfter = await currentBranchOf(git);
+    if (headAfter && !watched.has(headAfter)) {
+      watched.add(headAfter);
+      before.set(headAfter, null);
+    }
+    const refs: RefChange[] = [];
+    for (const branch of watched) {
+      const after = await localRefOf(git, branch);
+      if (before.get(branch) !== after) refs.push({ remote: null, branch, before: before.get(branch) ?? null, after });
+    }
+    if (refs.length > 0 || headBefore !== headAfter) {
+      layer.steps.push({ cwd: layer.cwd, args, head: { before: headBefore, after: headAfter }, refs });
+    }
+  }
+}
+
+function wrap(layer: Layer): SimpleGit {
+  const { real, cwd, operations } = layer;
+  // dry-run records the operation (still running index-only ones); journal mode runs it and logs ref changes.
+  const intercept = async (
+    args: string[],
+    indexOnly: boolean,
+    execute: () => Promise<unknown>,
+    skipped: unknown,
+  ): Promise<unknown> => {
+    if (layer.mode === "journal") return indexOnly ? await execute() : await journalStep(layer, args, execute);
+    operations.push({ cwd, args });
+    return indexOnly ? await execute() : skipped;
+  };
+
+  const proxy = new Proxy(real, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver) as unknown;
+      if (typeof property !== "string" || typeof value !== "function") return value;
+      const method = value as (...args: unknown[]) => unknown;
+      const execute = (args: unknown[]) => async () => await (method.apply(target, args) as Promise<unknown>);
+
+      if (property === "env") {
+        return (...args: unknown[]) => wrap({ ...layer, real: method.apply(target, args) as SimpleGit });
+      }
+      if (property === "raw") {
+        return async (...args: unknown[]) => {
+          const rawArgs = flattenArgs(args.filter((a) => typeof a !== "function"));
+          if (isReadOnlyRaw(rawArgs)) return await (method.apply(target, args) as Promise<string>);
+          return await intercept(rawArgs, isIndexOnlyRaw(rawArgs), execute(args), "");
+        };
+      }
+      const indexCommand = INDEX_METHODS[property];
+      if (indexCommand) {
+        return async (...args: unknown[]) => {
+          const rest = flattenArgs(args.filter((a) => typeof a !== "function"));
+          return await intercept([...indexCommand, ...rest], true, execute(args), {});
+        };
+      }
+      if (READ_ONLY_METHODS.has(property) || property in Object.prototype) return method.bind(target);
+      return async (...args: unknown[]) => {
+        const rest = flattenArgs(args.filter((a) => typeof a !== "function"));
+        if (property === "branch" && isReadOnlyRaw(["branch", ...rest])) {
+          return await (method.apply(target, args) as Promise<unknown>);
+        }
+        const command = METHOD_COMMANDS[property] ?? [property];
+        const gitArgs = property === "commit" ? [...command, "-m", ...rest] : [...command, ...rest];
+        return await intercept(gitArgs, false, execute(args), {});
+      };
+    },
+  });
+  layers.set(proxy, layer);
+  return proxy;
+}
+
+/**
+ * 判断 `simple-git` 实例是否为 dry-run 的记录实例。
+ * @param git `simple-git` 实例
+ * @returns 是否为记录实例
+ */
+export function isRecordingGit(git: SimpleGit): boolean {
+  return layers.get(git)?.mode === "record";
+}
+
+/**
+ * 为操作层实例创建一个作用于其它目录（如临时 worktree）的子实例，操作记录到同一个列表/journal：
+ * - dry-run：读操作仍然作用于原仓库（worktree 并不存在）
+ * - journal：直接作用于该目录
+ * @param git 操作层实例
+ * @param cwd 子实例对应的目录
+ * @param child 该目录对应的 `simple-git` 实例（journal 模式使用）
+ * @returns 子实例；`git` 不是操作层实例时直接返回 `child`
+ */
+export function createChildGit(git: SimpleGit, cwd: string, child: SimpleGit): SimpleGit {
+  const parent = layers.get(git);
+  if (!parent) return child;
+  return wrap({ ...parent, cwd, real: parent.mode === "record" ? parent.real : child });
+}
+
+/**
+ * 打印记录下来的 git 操作（按执行顺序）。
+ * @param operations 操作列表
+ * @param cwd 仓库根目录（与之不同的目录会标注出来）
+ * @param title 标题
+ */
+export function printGitOperations(
+  operations: readonly GitOperation[],
+  cwd: string,
+  title = "Planned git operations",
+): void {
+  logHeading(`\n${title} (${operations.length}):`);
+  operations.forEach((operation, index) => {
+    const where = resolve(operation.cwd) === resolve(cwd) ? "" : ` (in ${operation.cwd})`;
+    const quoted = operation.args.map((a) => (/^[\w./:@^=,+-]+$/.test(a) ? a : `'${a.replace(/'/g, "'\\''")}'`));
+    const [first = "", ...continuation] = `git ${quoted.join(" ")}`.split("\n");
+    process.stdout.write(`  ${String(index + 1).padStart(2)}. ${first}${where}\n`);
+    for (const line of continuation) process.stdout.write(`      ${line}\n`);
+  });
+}
+
+/**
+ * git 操作层：
+ * - 正常模式：每一步修改分支（本地或远程）的操作都会记录到 `.git/cicd/journal.json`，供 `to-undo` 撤销
+ * - dry-run 模式：换成记录实例——只读操作照常执行，暂存操作作用于临时 index，
+ *   其它操作（不在只读列表中的）一律只记录不执行，结束后打印操作列表
+ * @param cwd 仓库根目录
+ * @param dryRun 是否 dry-run
+ * @param command 命令名（记录到 journal 中）
+ * @param fn 使用 git 实例执行的流程
+ * @returns `fn` 的返回值
+ */
+export async function withGitOperations<T>(
+  cwd: string,
+  dryRun: boolean,
+  command: string,
+  fn: (git: SimpleGit) => Promise<T>,
+): Promise<T> {
+  const base = simpleGit({ baseDir: cwd });
+  if (!dryRun) {
+    const steps: JournalStep[] = [];
+    const startedAt = new Date().toISOString();
+    let ok = false;
+    try {
+      const result = await fn(wrap({ real: base, cwd, mode: "journal", operations: [], steps }));
+      ok = true;
+      return result;
+    } finally {
+      // Failed runs are journaled too: whatever they already changed can still be undone.
+      if (steps.length > 0) {
+        const entry = { command, cwd, startedAt, finishedAt: new Date().toISOString(), ok, steps };
+        await appendJournalEntry(base, entry).catch(() => logWarning("Could not write the to-undo journal."));
+      }
+    }
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), "cicd-dry-run-"));
+  const scratchIndex = join(dir, "index");
+  const realIndex = (await base.raw(["rev-parse", "--path-format=absolute", "--git-path", "index"]).catch(() => "")).trim();
+  if (realIndex) await copyFile(realIndex, scratchIndex).catch(() => undefined);
+
+  const operations: GitOperation[] = [];
+  const git = wrap({
+    real: base.env({ ...process.env, GIT_INDEX_FILE: scratchIndex }),
+    cwd,
+    mode: "record",
+    operations,
+    steps: [],
+  });
+  try {
+    return await fn(git);
+  } finally {
+    printGitOperations(operations, cwd);
+    logWarning("dry-run: nothing was changed.");
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,103 @@
+import inquirer from "inquirer";
+import { type SimpleGit } from "simple-git";
+import { loadCicdConfigProtectedBranches } from "./config.js";
+import { matchesBranchPattern } from "./glob.js";
+import { getUpstreamRef } from "./index.js";
+import { logStep, logSuccess, logWarning } from "./log.js";
+
+/**
+ * 判断分支是否受保护（匹配 `protectedBranches` 中的任意分支名或 glob）。
+ * @param branch 分支名
+ * @param patterns 受保护分支列表
+ * @returns 是否受保护
+ */
+export function isProtectedBranch(branch: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => matchesBranchPattern(branch, pattern));
+}
+
+/**
+ * 检查要 push 的分支（如 to-test 的目标分支）是否受保护，受保护时直接抛错。
+ * @param cwd 仓库根目录
+ * @param branch 要 push 的分支
+ * @param command 当前命令名（用于错误提示）
+ * @throws 分支受保护时抛错
+ */
+export async function assertBranchNotProtected(cwd: string, branch: string, command: string): Promise<void> {
+  if (!isProtectedBranch(branch, await loadCicdConfigProtectedBranches(cwd))) return;
+  throw new Error(`'${branch}' is a protected branch (protectedBranches in cicd.config.js); ${command} will not push to it`);
+}
+
+async function countUnpushedCommits(git: SimpleGit, upstream: string | null): Promise<number> {
+  if (!upstream) return 0;
+  return Number((await git.raw(["rev-list", "--count", `${upstream}..HEAD`])).trim()) || 0;
+}
+
+async function isValidBranchName(git: SimpleGit, name: string): Promise<boolean> {
+  const normalized = (await git.raw(["check-ref-format", "--branch", name]).catch(() => "")).trim();
+  return normalized === name;
+}
+
+/**
+ * 在提交/push 之前检查当前分支是否受保护：
+ * - 不受保护：原样返回当前分支
+ * - 受保护且有未提交的改动或未 push 的提交：交互模式下可以把这些改动移到一个新分支（受保护分支会重置回 upstream），
+ *   返回新分支名；否则抛错
+ * @param git `simple-git` 实例
+ * @param cwd 仓库根目录
+ * @param branch 当前分支名
+ * @param command 当前命令名（用于提示）
+ * @returns 接下来要操作的分支名
+ * @throws 分支受保护且没有移动改动时抛错
+ */
+export async function guardProtectedBranch(
+  git: SimpleGit,
+  cwd: string,
+  branch: string,
+  command: string,
+): Promise<string> {
+  if (!isProtectedBranch(branch, await loadCicdConfigProtectedBranches(cwd))) return branch;
+
+  const refusal = `'${branch}' is a protected branch (protectedBranches in cicd.config.js); ${command} will not push to it`;
+  const upstream = await getUpstreamRef(git);
+  const dirty = !(await git.status()).isClean();
+  const unpushed = await countUnpushedCommits(git, upstream);
+  if (!dirty && unpushed === 0) throw new Error(refusal);
+  if (!process.stdin.isTTY) throw new Error(`${refusal}; move your changes to a feature branch first`);
+
+  const pending = [dirty ? "uncommitted changes" : "", unpushed > 0 ? `${unpushed} unpushed commit(s)` : ""]
+    .filter(Boolean)
+    .join(" and ");
+  logWarning(`'${branch}' is protected but has ${pending}.`);
+  const { move } = await inquirer.prompt<{ move: boolean }>([
+    { type: "confirm", name: "move", message: "Move them to a new feature branch?", default: true },
+  ]);
+  if (!move) throw new Error(refusal);
+
+  const { name } = await inquirer.prompt<{ name: string }>([
+    {
+      type: "input",
+      name: "name",
+      message: "New branch name:",
+      validate: async (value: string) => {
+        const trimmed = value.trim();
+        if (!trimmed) return "Branch name cannot be empty";
+        if (!(await isValidBranchName(git, trimmed))) return "Not a valid branch name";
+        if (isProtectedBranch(trimmed, await loadCicdConfigProtectedBranches(cwd))) return "That branch is protected too";
+        if ((await git.branchLocal()).all.includes(trimmed)) return "Branch already exists";
+        return true;
+      },
+    },
+  ]);
+
+  const newBranch = name.trim();
+  logStep(`Moving pending changes to ${newBranch}`);
+  // The working tree and any unpushed commits come along; the protected branch goes back to its upstream.
+  await git.checkoutLocalBranch(newBranch);
+  if (unpushed > 0 && upstream) {
+    await git.raw(["branch", "-f", branch, upstream]);
+    logSuccess(`Switched to ${newBranch}; ${branch} was reset to ${upstream} (its ${unpushed} commit(s) are on ${newBranch}).`);
+  } else {
+    logSuccess(`Switched to ${newBranch}; ${branch} is unchanged.`);
+  }
+  return newBranch;
+}
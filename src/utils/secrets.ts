@@ -0,0 +1,170 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { type SimpleGit } from "simple-git";
+import { type SecretRules } from "./config.js";
+import { matchesAnyGlob, matchesGlob } from "./glob.js";
+import { formatCliError, logHeading } from "./log.js";
+
+export const SECRETS_ALLOWLIST_FILE = ".cicd-secrets-allow";
+
+export type SecretFinding = {
+  path: string;
+  line: number | null;
+  rule: string;
+  detail: string;
+};
+
+type AllowlistEntry = {
+  glob: string;
+  rule: string | null;
+};
+
+/**
+ * 计算字符串的香农熵（bits/char）。
+ * @param value 字符串
+ * @returns 熵值
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * 查找一行中疑似随机密钥的高熵字符串（长度 >= 24，同时包含大小写字母和数字）。
+ * @param line 代码行
+ * @returns 命中的字符串；没有时返回 `null`
+ */
+export function findHighEntropyToken(line: string): string | null {
+  for (const match of line.matchAll(/[A-Za-z0-9+/_-]{24,}={0,2}/g)) {
+    const token = match[0];
+    if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/\d/.test(token)) continue;
+    if (shannonEntropy(token) >= 4.5) return token;
+  }
+  return null;
+}
+
+/**
+ * 读取仓库根目录下的 allowlist 文件（`.cicd-secrets-allow`）。
+ * 每行一个 `<path glob>`（忽略整个文件）或 `<path glob>:<rule>`（只忽略该规则），`#` 开头为注释。
+ * @param cwd 仓库根目录
+ * @returns allowlist 条目
+ */
+export async function loadSecretsAllowlist(cwd: string): Promise<AllowlistEntry[]> {
+  let content = "";
+  try {
+    content = await readFile(join(cwd, SECRETS_ALLOWLIST_FILE), "utf8");
+  } catch {
+    return [];
+  }
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => {
+      const colon = line.lastIndexOf(":");
+      return colon > 0 ? { glob: line.slice(0, colon), rule: line.slice(colon + 1) } : { glob: line, rule: null };
+    });
+}
+
+function mask(value: string): string {
+  if (value.length <= 8) return "****";
+  return `${value.slice(0, 4)}…${value.slice(-2)}`;
+}
+
+// `!pattern` entries exempt matching files, like negation in .gitignore.
+function isForbiddenFile(path: string, patterns: readonly string[]): boolean {
+  const exempt = patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1));
+  return matchesAnyGlob(path, patterns.filter((p) => !p.startsWith("!"))) && !matchesAnyGlob(path, exempt);
+}
+
+/**
+ * 扫描 staged 变更中的敏感信息：
+ * - 禁止提交的文件（如 `.env*`、`*.pem`）
+ * - 超过大小限制的二进制文件
+ * - 新增行中匹配密钥规则（AWS key、私钥头、JWT 等）或高熵字符串的内容
+ * @param git `simple-git` 实例
+ * @param cwd 仓库根目录
+ * @param rules 扫描规则（来自 `cicd.config.js` 的 `secrets`）
+ * @returns 未被 allowlist 忽略的发现
+ */
+export async function scanStagedChanges(git: SimpleGit, cwd: string, rules: SecretRules): Promise<SecretFinding[]> {
+  const allowlist = await loadSecretsAllowlist(cwd);
+  const isAllowed = (finding: SecretFinding, text: string): boolean =>
+    allowlist.some((e) => matchesGlob(finding.path, e.glob) && (e.rule === null || e.rule === finding.rule)) ||
+    rules.allow.some((r) => r.test(text));
+
+  const findings: SecretFinding[] = [];
+  const report = (finding: SecretFinding, text: string): void => {
+    if (!isAllowed(finding, text)) findings.push(finding);
+  };
+
+  const numstat = await git.diff(["--cached", "--numstat", "--no-renames", "--diff-filter=ACMR"]);
+  for (const row of numstat.split("\n").filter(Boolean)) {
+    const [added, removed, path] = row.split("\t");
+    if (!path) continue;
+    if (isForbiddenFile(path, rules.forbiddenFiles)) {
+      report({ path, line: null, rule: "forbidden-file", detail: "file type must not be committed" }, path);
+    }
+    if (added === "-" && removed === "-") {
+      const size = Number((await git.raw(["cat-file", "-s", `:${path}`])).trim());
+      if (size > rules.maxBinaryBytes) {
+        const detail = `binary file is ${(size / 1024).toFixed(0)} KB (limit ${rules.maxBinaryBytes / 1024} KB)`;
+        report({ path, line: null, rule: "large-binary", detail }, path);
+      }
+    }
+  }
+
+  const diff = await git.diff(["--cached", "-U0", "--no-color", "--no-renames", "--diff-filter=ACMR"]);
+  let path: string | null = null;
+  let lineNo = 0;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      path = line === "+++ /dev/null" ? null : line.slice(4).replace(/^b\//, "");
+      continue;
+    }
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+    if (hunk) {
+      lineNo = Number(hunk[1]);
+      continue;
+    }
+    if (!path || !line.startsWith("+")) continue;
+
+    const content = line.slice(1);
+    const current = lineNo++;
+    if (matchesAnyGlob(path, rules.ignoreFiles)) continue;
+
+    const pattern = rules.patterns.find((p) => p.regex.test(content));
+    if (pattern) {
+      const matched = pattern.regex.exec(content)?.[0] ?? "";
+      report({ path, line: current, rule: pattern.name, detail: `matched ${mask(matched)}` }, content);
+      continue;
+    }
+    if (rules.entropy) {
+      const token = findHighEntropyToken(content);
+      if (token) report({ path, line: current, rule: "high-entropy", detail: `suspicious string ${mask(token)}` }, content);
+    }
+  }
+  return findings;
+}
+
+/**
+ * 打印扫描结果（文件、行号、规则）。
+ * @param findings 扫描发现
+ */
+export function printSecretFindings(findings: readonly SecretFinding[]): void {
+  logHeading(`\nPossible secrets in staged changes (${findings.length}):`);
+  for (const finding of findings) {
+    const location = finding.line === null ? finding.path : `${finding.path}:${finding.line}`;
+    process.stderr.write(`  ${formatCliError(location, `[${finding.rule}] ${finding.detail}`)}\n`);
+  }
+  process.stderr.write(
+    `\nIf these are false positives, add '<path glob>' or '<path glob>:<rule>' lines to ${SECRETS_ALLOWLIST_FILE}` +
+      " or regexes to secrets.allow in cicd.config.js.\n",
+  );
+}
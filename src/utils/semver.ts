@@ -0,0 +1,78 @@
+import { type ChangelogEntry } from "./changelog.js";
+
+export type ReleaseBump = "major" | "minor" | "patch";
+
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: { id: string; n: number } | null;
+};
+
+/**
+ * 解析 semver 字符串（允许 `v` 前缀；预发布版本仅支持 `<id>.<n>` 形式，如 `1.2.0-rc.1`）。
+ * @param value 版本号
+ * @returns 解析结果；格式不支持时返回 `null`
+ */
+export function parseSemVer(value: string): SemVer | null {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+)\.(\d+))?$/.exec(value.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? { id: match[4], n: Number(match[5]) } : null,
+  };
+}
+
+/**
+ * 将 semver 结构格式化为字符串（不带 `v` 前缀）。
+ * @param version semver 结构
+ * @returns 形如 `1.2.3` 或 `1.2.3-rc.0` 的字符串
+ */
+export function formatSemVer(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease ? `${core}-${version.prerelease.id}.${version.prerelease.n}` : core;
+}
+
+/**
+ * 根据提交推断版本升级级别：breaking -> major，feat -> minor，fix/perf -> patch。
+ * @param entries 上次发布以来的提交
+ * @returns 升级级别；没有可发布的提交时返回 `null`
+ */
+export function detectReleaseBump(entries: readonly ChangelogEntry[]): ReleaseBump | null {
+  if (entries.some((e) => e.breaking)) return "major";
+  if (entries.some((e) => e.type === "feat")) return "minor";
+  if (entries.some((e) => e.type === "fix" || e.type === "perf")) return "patch";
+  return null;
+}
+
+/**
+ * 计算下一个版本号：
+ * - 当前为稳定版本：按 `bump` 升级；传入 `preid` 时生成 `<next>-<preid>.0`
+ * - 当前为预发布版本（如 `1.3.0-rc.1`）：`bump` 不超出 `1.3.0` 时（patch；minor 且 patch 为 0；
+ *   major 且 minor/patch 为 0）视为 `1.3.0` 的预发布，同一 `preid` 时递增序号，不传 `preid` 时发布为 `1.3.0`；
+ *   否则从 `1.3.0` 按 `bump` 升级（如 breaking change -> `2.0.0`）
+ * @param current 当前版本
+ * @param bump 升级级别
+ * @param preid 预发布通道（如 `rc`）；为空表示正式版本
+ * @returns 下一个版本
+ */
+export function nextSemVer(current: SemVer, bump: ReleaseBump, preid?: string): SemVer {
+  const fitsPrerelease =
+    bump === "patch" || (bump === "minor" && current.patch === 0) || (current.minor === 0 && current.patch === 0);
+  if (current.prerelease && fitsPrerelease) {
+    const core = { ...current, prerelease: null };
+    if (!preid) return core;
+    const n = current.prerelease.id === preid ? current.prerelease.n + 1 : 0;
+    return { ...core, prerelease: { id: preid, n } };
+  }
+
+  const next: SemVer =
+    bump === "major"
+      ? { major: current.major + 1, minor: 0, patch: 0, prerelease: null }
+      : bump === "minor"
+        ? { major: current.major, minor: current.minor + 1, patch: 0, prerelease: null }
+        : { major: current.major, minor: current.minor, patch: current.patch + 1, prerelease: null };
+  return preid ? { ...next, prerelease: { id: preid, n: 0 } } : next;
+}
@@ -0,0 +1,225 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import inquirer from "inquirer";
+import { type SimpleGit } from "simple-git";
+import { matchesAnyGlob } from "./glob.js";
+import { formatGitStatusLine, logStep, logWarning, type GitStatusFile } from "./log.js";
+
+const HUNK_PREVIEW_LINES = 3;
+
+/**
+ * `git diff` 中单个文件的 patch 拆分结果。
+ */
+type FilePatch = {
+  header: string;
+  hunks: string[];
+};
+
+/**
+ * 判断文件在 index 中是否已有变更（已 staged）。
+ * @param file git 状态里的文件信息
+ * @returns 是否已 staged
+ */
+function isStagedFile(file: GitStatusFile): boolean {
+  const x = file.index ?? " ";
+  return x !== " " && x !== "?" && x !== "!";
+}
+
+/**
+ * 获取某个变更涉及的全部路径（重命名时同时包含旧路径）。
+ * @param file git 状态里的文件信息
+ * @returns 路径列表
+ */
+function pathsOf(file: GitStatusFile): string[] {
+  return file.from ? [file.from, file.path] : [file.path];
+}
+
+/**
+ * 将 `git diff` 输出拆分为文件头和 hunk 列表。
+ * @param diff 单个文件的 diff 文本
+ * @returns 拆分结果；没有 hunk（如二进制文件）时 `hunks` 为空
+ */
+export function splitDiffIntoHunks(diff: string): FilePatch {
+  const lines = diff.split("\n");
+  const firstHunk = lines.findIndex((line) => line.startsWith("@@"));
+  if (firstHunk === -1) return { header: diff, hunks: [] };
+
+  const header = lines.slice(0, firstHunk).join("\n");
+  const hunks: string[] = [];
+  let current: string[] = [];
+  for (const line of lines.slice(firstHunk)) {
+    if (line.startsWith("@@") && current.length > 0) {
+      hunks.push(current.join("\n"));
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.length > 0) hunks.push(current.join("\n").replace(/\n+$/, ""));
+  return { header, hunks };
+}
+
+/**
+ * 生成 hunk 在选择列表中的标签：`@@` 头加上前几行改动的预览。
+ * @param hunk hunk 文本（以 `@@` 开头）
+ * @returns 标签
+ */
+function describeHunk(hunk: string): string {
+  const [header = "", ...lines] = hunk.split("\n");
+  const changed = lines.filter((line) => line.startsWith("+") || line.startsWith("-"));
+  const preview = changed
+    .slice(0, HUNK_PREVIEW_LINES)
+    .map((line) => `\n      ${line.length > 72 ? `${line.slice(0, 71)}…` : line}`);
+  const hidden = changed.length - HUNK_PREVIEW_LINES;
+  const more = hidden > 0 ? `\n      … ${hidden} more line(s)` : "";
+  return `${header}${preview.join("")}${more}`;
+}
+
+/**
+ * 将 patch 应用到 index（不改动工作区）。
+ * @param git `simple-git` 实例
+ * @param patch patch 文本
+ */
+async function applyPatchToIndex(git: SimpleGit, patch: string): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), "cicd-stage-"));
+  const patchPath = join(dir, "selection.patch");
+  try {
+    await writeFile(patchPath, patch.endsWith("\n") ? patch : `${patch}\n`, "utf8");
+    await git.applyPatch(patchPath, ["--cached"]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 交互式选择某个已修改文件要 staged 的 hunk，并只把选中的 hunk 写入 index。
+ * @param git `simple-git` 实例
+ * @param path 文件路径
+ * @returns 是否至少 staged 了一个 hunk
+ */
+async function stageSelectedHunks(git: SimpleGit, path: string): Promise<boolean> {
+  const diff = await git.diff(["--no-color", "--", path]);
+  const { header, hunks } = splitDiffIntoHunks(diff);
+  if (hunks.length === 0) {
+    logWarning(`No text hunks for ${path}; staging the whole file.`);
+    await git.add(["--", path]);
+    return true;
+  }
+
+  const answers = await inquirer.prompt<{ hunks: number[] }>([
+    {
+      type: "checkbox",
+      name: "hunks",
+      message: `Select hunks to stage in ${path}:`,
+      choices: hunks.map((hunk, index) => ({ name: describeHunk(hunk), value: index, checked: true })),
+    },
+  ]);
+  if (answers.hunks.length === 0) return false;
+  if (answers.hunks.length === hunks.length) {
+    await git.add(["--", path]);
+    return true;
+  }
+
+  const selected = answers.hunks.map((index) => hunks[index]!);
+  await applyPatchToIndex(git, [header, ...selected].join("\n"));
+  return true;
+}
+
+/**
+ * 非交互 staging：相当于 `git add -A`，但会跳过匹配 `excludes` 的文件。
+ * @param git `simple-git` 实例
+ * @param files `git status` 的文件列表
+ * @param excludes 默认排除的 glob 列表（来自 `cicd.config.js`）
+ */
+export async function stageAllExcept(git: SimpleGit, files: GitStatusFile[], excludes: string[]): Promise<void> {
+  const excluded = files.filter((f) => matchesAnyGlob(f.path, excludes));
+  if (excluded.length === 0) {
+    logStep("Staging changes (git add -A)");
+    await git.add(["-A"]);
+    return;
+  }
+
+  const included = files.filter((f) => !excluded.includes(f));
+  logStep(`Staging changes (git add -A, excluding ${excluded.length} file(s))`);
+  for (const file of excluded) logWarning(`  skipped: ${file.path}`);
+  // Excluded files that were already staged are unstaged too, like unchecked files in the picker.
+  const unstage = excluded.filter(isStagedFile).flatMap(pathsOf);
+  if (unstage.length > 0) await git.raw(["reset", "-q", "--", ...unstage]);
+  if (included.length > 0) await git.add(["-A", "--", ...included.flatMap(pathsOf)]);
+}
+
+/**
+ * 交互式选择要 staged 的变更：
+ * - 可一键 "stage all"（仍会跳过 `excludes`）
+ * - 否则以 checkbox 选择文件（默认勾选未被排除的文件）
+ * - 对已修改的文件可进一步按 hunk 选择
+ *
+ * 未选择的变更会保留在工作区中，不会被改动。
+ * @param git `simple-git` 实例
+ * @param files `git status` 的文件列表
+ * @param excludes 默认排除的 glob 列表（来自 `cicd.config.js`）
+ */
+export async function promptStageSelection(
+  git: SimpleGit,
+  files: GitStatusFile[],
+  excludes: string[],
+): Promise<void> {
+  const mode = await inquirer.prompt<{ mode: "all" | "select" }>([
+    {
+      type: "list",
+      name: "mode",
+      message: "Stage changes:",
+      choices: [
+        { name: "Stage all (git add -A)", value: "all" },
+        { name: "Select files / hunks", value: "select" },
+      ],
+    },
+  ]);
+  if (mode.mode === "all") {
+    await stageAllExcept(git, files, excludes);
+    return;
+  }
+
+  const answers = await inquirer.prompt<{ paths: string[] }>([
+    {
+      type: "checkbox",
+      name: "paths",
+      message: "Select files to stage:",
+      choices: files.map((f) => ({
+        name: formatGitStatusLine(f),
+        value: f.path,
+        checked: !matchesAnyGlob(f.path, excludes),
+      })),
+    },
+  ]);
+  const selected = files.filter((f) => answers.paths.includes(f.path));
+  const unselected = files.filter((f) => !answers.paths.includes(f.path));
+
+  // Keep the picker authoritative: unchecked files are removed from the index, never from the working tree.
+  const unstage = unselected.filter(isStagedFile).flatMap(pathsOf);
+  if (unstage.length > 0) await git.raw(["reset", "-q", "--", ...unstage]);
+
+  const modified = selected.filter((f) => f.working_dir === "M");
+  let partial: string[] = [];
+  if (modified.length > 0) {
+    const hunkAnswers = await inquirer.prompt<{ paths: string[] }>([
+      {
+        type: "checkbox",
+        name: "paths",
+        message: "Stage only some hunks of these files? (leave empty to stage whole files)",
+        choices: modified.map((f) => ({ name: formatGitStatusLine(f), value: f.path })),
+      },
+    ]);
+    partial = hunkAnswers.paths;
+  }
+
+  const whole = selected.filter((f) => !partial.includes(f.path)).flatMap(pathsOf);
+  if (whole.length > 0) {
+    logStep(`Staging ${whole.length} path(s)`);
+    await git.add(["-A", "--", ...whole]);
+  }
+  for (const path of partial) {
+    logStep(`Staging selected hunks of ${path}`);
+    await stageSelectedHunks(git, path);
+  }
+}
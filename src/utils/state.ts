@@ -0,0 +1,90 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { type SimpleGit } from "simple-git";
+import { isMergeStrategy, type MergeStrategy } from "./config.js";
+import { logWarning } from "./log.js";
+
+/**
+ * 未完成的 to-test 操作（合并冲突或 push 失败时保存，用于 `--continue`/`--abort`）。
+ * - `merging`：worktree 中的 merge 有冲突，等待用户解决
+ * - `rebasing`：worktree 中的 rebase 有冲突，等待用户解决
+ * - `merged`：merge 已提交，等待 push
+ */
+export type ToTestState = {
+  source: string;
+  target: string;
+  remote: string;
+  strategy: MergeStrategy;
+  message: string;
+  step: "merging" | "rebasing" | "merged";
+  worktree: string;
+  startedAt: string;
+};
+
+/**
+ * 获取 `.git/` 下保存 cicd 状态文件的路径（多 worktree 时使用共享的 git 目录）。
+ * @param git `simple-git` 实例
+ * @param name 文件名
+ * @returns 绝对路径
+ */
+export async function getGitStatePath(git: SimpleGit, name: string): Promise<string> {
+  const commonDir = (await git.raw(["rev-parse", "--path-format=absolute", "--git-common-dir"])).trim();
+  return join(commonDir, "cicd", name);
+}
+
+/**
+ * 读取未完成的 to-test 操作。
+ * @param git `simple-git` 实例
+ * @returns 状态；不存在或无法解析时返回 `null`
+ */
+export async function readToTestState(git: SimpleGit): Promise<ToTestState | null> {
+  try {
+    const content = await readFile(await getGitStatePath(git, "to-test.json"), "utf8");
+    const parsed = JSON.parse(content) as Partial<ToTestState>;
+    if (!parsed.source || !parsed.target || !parsed.remote || !parsed.worktree) return null;
+    return {
+      source: parsed.source,
+      target: parsed.target,
+      remote: parsed.remote,
+      strategy: isMergeStrategy(parsed.strategy) ? parsed.strategy : "merge",
+      message: parsed.message ?? "",
+      step: parsed.step === "merged" || parsed.step === "rebasing" ? parsed.step : "merging",
+      worktree: parsed.worktree,
+      startedAt: parsed.startedAt ?? "",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 保存未完成的 to-test 操作。
+ * @param git `simple-git` 实例
+ * @param state 状态
+ */
+export async function writeToTestState(git: SimpleGit, state: ToTestState): Promise<void> {
+  const path = await getGitStatePath(git, "to-test.json");
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(state, null, 2)}\n`, "utf8");
+}
+
+/**
+ * 删除 to-test 状态文件。
+ * @param git `simple-git` 实例
+ */
+export async function clearToTestState(git: SimpleGit): Promise<void> {
+  await rm(await getGitStatePath(git, "to-test.json"), { force: true });
+}
+
+/**
+ * 存在未完成的 to-test 操作时打印 warning（用于 to-self/to-main）。
+ * @param git `simple-git` 实例
+ */
+export async function warnIfToTestPending(git: SimpleGit): Promise<void> {
+  const pending = await readToTestState(git);
+  if (!pending) return;
+  logWarning(
+    `Unfinished to-test (${pending.source} -> ${pending.target}, conflicts in ${pending.worktree}); ` +
+      "run to-test --continue or to-test --abort.",
+  );
+}
@@ -0,0 +1,68 @@
+import { type TicketRules } from "./config.js";
+import { matchesBranchPattern } from "./glob.js";
+import { logWarning } from "./log.js";
+
+/**
+ * 从分支名中提取 ticket ID（如 `feat/PROJ-123-login` -> `PROJ-123`）。
+ * pattern 含捕获组时取第一个捕获组，否则取整个匹配。
+ * @param branch 分支名
+ * @param pattern ticket 正则
+ * @returns ticket ID；未匹配时返回 `null`
+ */
+export function extractTicketId(branch: string, pattern: RegExp): string | null {
+  const match = pattern.exec(branch);
+  if (!match) return null;
+  const id = (match[1] ?? match[0]).trim();
+  return id || null;
+}
+
+/**
+ * 获取当前分支的 ticket ID，并按配置处理缺失的情况：
+ * - 分支匹配 `requiredBranches` 但没有 ticket 时，`onMissing: "warn"` 给出 warning，`"error"` 直接抛错
+ * @param rules `cicd.config.js` 中的 ticket 规则
+ * @param branch 当前分支名
+ * @returns ticket ID；没有时返回 `null`
+ * @throws 分支要求 ticket 且 `onMissing` 为 `"error"` 时抛错
+ */
+export function resolveBranchTicket(rules: TicketRules, branch: string): string | null {
+  const ticket = extractTicketId(branch, rules.pattern);
+  if (ticket) return ticket;
+
+  const required = rules.requiredBranches.some((p) => matchesBranchPattern(branch, p));
+  if (!required) return null;
+
+  const message = `branch '${branch}' has no ticket ID matching ${rules.pattern}`;
+  if (rules.onMissing === "error") throw new Error(`${message}; rename the branch like 'feat/PROJ-123-xxx'`);
+  logWarning(`Warning: ${message}.`);
+  return null;
+}
+
+/**
+ * 将 ticket ID 放进提交信息首行的 subject：
+ * - `prefix`：`feat(scope): PROJ-123 subject`
+ * - `suffix`：`feat(scope): subject (PROJ-123)`
+ *
+ * 已包含该 ticket 的首行原样返回。
+ * @param header 提交信息首行
+ * @param ticket ticket ID
+ * @param placement 放置位置（`footer` 时原样返回，由 footer 处理）
+ * @returns 处理后的首行
+ */
+export function applyTicketToHeader(header: string, ticket: string, placement: TicketRules["placement"]): string {
+  if (placement === "footer" || header.includes(ticket)) return header;
+  const match = /^([a-zA-Z]+(?:\([^()]*\))?!?:\s+)(.*)$/.exec(header);
+  const prefix = match ? match[1]! : "";
+  const subject = match ? match[2]! : header;
+  return placement === "suffix" ? `${prefix}${subject} (${ticket})` : `${prefix}${ticket} ${subject}`;
+}
+
+/**
+ * 计算 `applyTicketToHeader` 会给 subject 增加的字符数，用于在输入 subject 时预留长度。
+ * @param ticket ticket ID
+ * @param placement 放置位置
+ * @returns 增加的字符数（`footer` 为 0）
+ */
+export function ticketSubjectLength(ticket: string, placement: TicketRules["placement"]): number {
+  if (placement === "footer") return 0;
+  return placement === "suffix" ? ticket.length + 3 : ticket.length + 1;
+}
@@ -0,0 +1,71 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { simpleGit, type SimpleGit } from "simple-git";
+import { logStep, logWarning } from "./log.js";
+import { createChildGit, isRecordingGit } from "./ops.js";
+
+export type TemporaryWorktree = {
+  path: string;
+  git: SimpleGit;
+};
+
+/**
+ * 在临时目录创建一个 detached 的 `git worktree`（不影响当前工作区/index/分支）。
+ * @param git 主仓库的 `simple-git` 实例
+ * @param ref worktree 检出的起点（如 `origin/test`）
+ * @returns worktree 路径以及对应的 `simple-git` 实例
+ */
+export async function createTemporaryWorktree(git: SimpleGit, ref: string): Promise<TemporaryWorktree> {
+  if (isRecordingGit(git)) {
+    // dry-run: record the worktree without creating its directory; commands inside it are recorded as well.
+    const path = join(tmpdir(), "cicd-worktree-XXXXXX");
+    await git.raw(["worktree", "add", "--detach", path, ref]);
+    return { path, git: createChildGit(git, path, git) };
+  }
+
+  const path = await mkdtemp(join(tmpdir(), "cicd-worktree-"));
+  try {
+    await git.raw(["worktree", "add", "--detach", path, ref]);
+  } catch (error) {
+    await rm(path, { recursive: true, force: true });
+    throw error;
+  }
+  return { path, git: createChildGit(git, path, simpleGit({ baseDir: path })) };
+}
+
+/**
+ * 删除临时 worktree（包括未完成的 merge 状态），失败时只给出 warning。
+ * @param git 主仓库的 `simple-git` 实例
+ * @param worktree 要删除的 worktree
+ */
+export async function removeTemporaryWorktree(git: SimpleGit, worktree: TemporaryWorktree): Promise<void> {
+  try {
+    await git.raw(["worktree", "remove", "--force", worktree.path]);
+  } catch {
+    logWarning(`Could not remove worktree ${worktree.path}; run 'git worktree prune' if needed.`);
+  }
+  await rm(worktree.path, { recursive: true, force: true }).catch(() => undefined);
+  await git.raw(["worktree", "prune"]).catch(() => undefined);
+}
+
+/**
+ * 在临时 worktree 中执行操作，结束后（无论成功或失败）都会清理 worktree。
+ * @param git 主仓库的 `simple-git` 实例
+ * @param ref worktree 检出的起点
+ * @param fn 在 worktree 中执行的操作
+ * @returns `fn` 的返回值
+ */
+export async function withTemporaryWorktree<T>(
+  git: SimpleGit,
+  ref: string,
+  fn: (worktree: TemporaryWorktree) => Promise<T>,
+): Promise<T> {
+  const worktree = await createTemporaryWorktree(git, ref);
+  logStep(`Using temporary worktree: ${worktree.path}`);
+  try {
+    return await fn(worktree);
+  } finally {
+    await removeTemporaryWorktree(git, worktree);
+  }
+}